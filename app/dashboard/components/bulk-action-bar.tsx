@@ -0,0 +1,62 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  allLoadedSelected: boolean;
+  // More emails match the current filters than are loaded
+  hasMore: boolean;
+  onSelectAllMatching: () => void;
+  isSelectingAll: boolean;
+  onClear: () => void;
+  // Action buttons for the current view
+  children: ReactNode;
+}
+
+export function BulkActionBar({
+  selectedCount,
+  allLoadedSelected,
+  hasMore,
+  onSelectAllMatching,
+  isSelectingAll,
+  onClear,
+  children,
+}: BulkActionBarProps) {
+  if (selectedCount === 0) {
+    return null;
+  }
+
+  return (
+    <div className="sticky top-20 z-10 flex flex-wrap items-center justify-between gap-3 rounded-lg border border-primary/20 bg-card px-4 py-2.5 shadow-md">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+        <span className="font-medium text-foreground">{selectedCount} selected</span>
+        {allLoadedSelected && hasMore && (
+          <button
+            type="button"
+            className="flex items-center gap-1.5 text-primary underline-offset-2 hover:underline disabled:opacity-60"
+            onClick={onSelectAllMatching}
+            disabled={isSelectingAll}
+          >
+            {isSelectingAll && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            Select all matching emails
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {children}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 text-muted-foreground"
+          onClick={onClear}
+          aria-label="Clear selection"
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
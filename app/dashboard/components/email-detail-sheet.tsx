@@ -0,0 +1,297 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Info, Loader2, Save } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useEmailEdit } from "@/hooks/useEmailEdit";
+import { api, type EmailResponse } from "@/lib/api";
+import { UpdateEmailRequestSchema } from "@/lib/schemas";
+import { queryKeys } from "@/lib/query-keys";
+import { getSourceTemplate } from "@/lib/email-metadata";
+import { fillInputVariables } from "@/lib/template-engine";
+import { diffWords, getDiffStats } from "@/lib/text-diff";
+import { cn } from "@/lib/utils";
+import { DiffView } from "@/components/DiffView";
+import { EmailVersions } from "./email-versions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+interface EmailDetailSheetProps {
+  email: EmailResponse | null;
+  // Original plus regenerations of the email, original first
+  versions?: EmailResponse[];
+  onOpenChange: (open: boolean) => void;
+  onSelectEmail: (emailId: string) => void;
+}
+
+type DetailTab = "email" | "compare" | "versions";
+
+// Unsaved edits, tied to the email they were made on
+interface EmailDraft {
+  emailId: string;
+  subject: string;
+  body: string;
+}
+
+export function EmailDetailSheet({
+  email,
+  versions = [],
+  onOpenChange,
+  onSelectEmail,
+}: EmailDetailSheetProps) {
+  const [tab, setTab] = useState<DetailTab>("email");
+  const hasVersions = versions.length > 1;
+  const activeTab = tab === "versions" && !hasVersions ? "email" : tab;
+  const [draft, setDraft] = useState<EmailDraft | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const { mutate: saveEmail, isPending: isSaving } = useEmailEdit();
+
+  // A draft left over from a different email is ignored
+  const activeDraft = draft && email && draft.emailId === email.id ? draft : null;
+  const savedSubject = email?.subject ?? "";
+  const subject = activeDraft?.subject ?? savedSubject;
+  const body = activeDraft?.body ?? email?.email_message ?? "";
+  const isDirty = !!email && (subject !== savedSubject || body !== email.email_message);
+
+  const updateDraft = (patch: Partial<Omit<EmailDraft, "emailId">>) => {
+    if (!email) return;
+    setDraft({ emailId: email.id, subject, body, ...patch });
+    setDraftError(null);
+  };
+
+  const discardDraft = () => {
+    setDraft(null);
+    setDraftError(null);
+  };
+
+  const handleSave = () => {
+    if (!email || !isDirty || isSaving) return;
+
+    const result = UpdateEmailRequestSchema.safeParse({
+      subject: subject !== savedSubject ? subject || null : undefined,
+      email_message: body !== email.email_message ? body : undefined,
+    });
+    if (!result.success) {
+      setDraftError(result.error.issues[0]?.message ?? "Invalid email");
+      return;
+    }
+
+    saveEmail(
+      { emailId: email.id, changes: result.data },
+      { onSuccess: discardDraft }
+    );
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open && isDirty && !confirm("Discard unsaved changes to this email?")) {
+      return;
+    }
+    if (!open) discardDraft();
+    onOpenChange(open);
+  };
+
+  return (
+    <Sheet open={email !== null} onOpenChange={handleOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 overflow-y-auto sm:max-w-4xl">
+        {email && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{email.recipient_name}</SheetTitle>
+              <SheetDescription>
+                {email.recipient_interest} ·{" "}
+                {new Date(email.created_at).toLocaleDateString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                  year: "numeric",
+                })}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="inline-flex self-start rounded-md border border-border p-0.5 text-xs">
+              {(
+                [
+                  ["email", "Email"],
+                  ["compare", "Compare to template"],
+                  ...(hasVersions ? [["versions", `Versions (${versions.length})`] as const] : []),
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setTab(value)}
+                  className={cn(
+                    "rounded px-2.5 py-1 transition-colors",
+                    activeTab === value
+                      ? "bg-primary text-primary-foreground"
+                      : "text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {activeTab === "email" ? (
+              <div
+                className="flex flex-1 flex-col gap-3"
+                onKeyDown={(e) => {
+                  if ((e.metaKey || e.ctrlKey) && e.key === "s") {
+                    e.preventDefault();
+                    handleSave();
+                  }
+                }}
+              >
+                <div className="space-y-1.5">
+                  <Label htmlFor="email-subject">Subject</Label>
+                  <Input
+                    id="email-subject"
+                    placeholder="No subject"
+                    value={subject}
+                    onChange={(e) => updateDraft({ subject: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="flex flex-1 flex-col space-y-1.5">
+                  <Label htmlFor="email-body">Body</Label>
+                  <Textarea
+                    id="email-body"
+                    className="min-h-[320px] flex-1 text-sm leading-relaxed"
+                    value={body}
+                    onChange={(e) => updateDraft({ body: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                {draftError && <p className="text-xs text-destructive">{draftError}</p>}
+
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {isDirty ? "Unsaved changes" : "All changes saved"}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={discardDraft}
+                      disabled={!isDirty || isSaving}
+                    >
+                      Discard changes
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={handleSave}
+                      disabled={!isDirty || isSaving}
+                    >
+                      {isSaving ? (
+                        <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <Save className="mr-2 h-3.5 w-3.5" />
+                      )}
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ) : activeTab === "compare" ? (
+              <TemplateComparison email={email} />
+            ) : (
+              <EmailVersions
+                email={email}
+                versions={versions}
+                onKeep={(emailId) => {
+                  discardDraft();
+                  setTab("email");
+                  onSelectEmail(emailId);
+                }}
+              />
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function TemplateComparison({ email }: { email: EmailResponse }) {
+  const { user, supabaseReady } = useAuth();
+  const [fillInputs, setFillInputs] = useState(true);
+  const recordedTemplate = getSourceTemplate(email);
+
+  // Only needed when the email doesn't carry its own template
+  const { data: userProfile } = useQuery({
+    queryKey: queryKeys.user.profile(),
+    queryFn: ({ signal }) => api.template.getUserProfile({ signal }),
+    enabled: !recordedTemplate && !!user?.uid && supabaseReady,
+    staleTime: 30000,
+  });
+
+  const template = recordedTemplate ?? userProfile?.email_template ?? "";
+
+  const segments = useMemo(() => {
+    const before = fillInputs ? fillInputVariables(template, email) : template;
+    return diffWords(before, email.email_message);
+  }, [template, email, fillInputs]);
+  const stats = getDiffStats(segments);
+
+  if (!template) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        No template available to compare against.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {!recordedTemplate && (
+        <p className="flex items-start gap-1.5 rounded-md bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+          <Info className="mt-px h-3.5 w-3.5 shrink-0" />
+          The original template wasn&apos;t recorded for this email, so it is compared against
+          your current template.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={fillInputs}
+            onChange={(e) => setFillInputs(e.target.checked)}
+          />
+          Fill in recipient name before comparing
+        </label>
+        <span>
+          <span className="text-green-700 dark:text-green-400">{stats.added} words added</span>
+          {" · "}
+          <span className="text-destructive">{stats.removed} template words replaced</span>
+        </span>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="rounded-md border border-border">
+          <div className="border-b border-border bg-muted/30 px-3 py-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            Template
+          </div>
+          <DiffView segments={segments} side="before" className="px-3 py-2" />
+        </div>
+        <div className="rounded-md border border-border">
+          <div className="border-b border-border bg-muted/30 px-3 py-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            Generated email
+          </div>
+          <DiffView segments={segments} side="after" className="px-3 py-2" />
+        </div>
+      </div>
+    </div>
+  );
+}
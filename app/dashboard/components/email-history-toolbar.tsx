@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Search, X } from "lucide-react";
+import type { EmailHistoryFilters, EmailSort } from "@/lib/schemas";
+import { EMAIL_SORT_LABELS, DEFAULT_EMAIL_SORT, hasActiveEmailFilters } from "@/lib/email-filters";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface EmailHistoryToolbarProps {
+  filters: EmailHistoryFilters;
+  onChange: (patch: Partial<EmailHistoryFilters>) => void;
+  onClear: () => void;
+  templateTypes: string[];
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SELECT_CLASS = "h-9 rounded-md border border-input bg-card px-2 text-sm text-foreground";
+
+export function EmailHistoryToolbar({
+  filters,
+  onChange,
+  onClear,
+  templateTypes,
+}: EmailHistoryToolbarProps) {
+  const urlSearch = filters.search ?? "";
+  const [searchInput, setSearchInput] = useState(urlSearch);
+  const [syncedSearch, setSyncedSearch] = useState(urlSearch);
+
+  // Follow external URL changes (back/forward, clear) without fighting typing
+  if (urlSearch !== syncedSearch) {
+    setSyncedSearch(urlSearch);
+    setSearchInput(urlSearch);
+  }
+
+  useEffect(() => {
+    if (searchInput.trim() === urlSearch) return;
+    const timer = setTimeout(
+      () => onChange({ search: searchInput.trim() || undefined }),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timer);
+  }, [searchInput, urlSearch, onChange]);
+
+  const status =
+    filters.is_confident === undefined ? "all" : filters.is_confident ? "confident" : "draft";
+
+  // Keep the active type selectable even if no loaded email has it
+  const typeOptions = [...new Set([...templateTypes, filters.template_type].filter(Boolean))] as string[];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative min-w-[14rem] flex-1">
+        <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          aria-label="Search emails"
+          placeholder="Search name, interest or message..."
+          className="h-9 bg-card pl-9"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+        />
+      </div>
+
+      <select
+        aria-label="Status"
+        className={SELECT_CLASS}
+        value={status}
+        onChange={(e) =>
+          onChange({
+            is_confident:
+              e.target.value === "all" ? undefined : e.target.value === "confident",
+          })
+        }
+      >
+        <option value="all">All statuses</option>
+        <option value="confident">Confident</option>
+        <option value="draft">Draft</option>
+      </select>
+
+      {typeOptions.length > 0 && (
+        <select
+          aria-label="Template type"
+          className={SELECT_CLASS}
+          value={filters.template_type ?? ""}
+          onChange={(e) => onChange({ template_type: e.target.value || undefined })}
+        >
+          <option value="">All types</option>
+          {typeOptions.map((type) => (
+            <option key={type} value={type}>
+              {type.replace(/_/g, " ")}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <div className="flex items-center gap-1 text-sm text-muted-foreground">
+        <Input
+          type="date"
+          aria-label="From date"
+          className="h-9 w-[9.5rem] bg-card"
+          value={filters.created_after ?? ""}
+          max={filters.created_before}
+          onChange={(e) => onChange({ created_after: e.target.value || undefined })}
+        />
+        <span>–</span>
+        <Input
+          type="date"
+          aria-label="To date"
+          className="h-9 w-[9.5rem] bg-card"
+          value={filters.created_before ?? ""}
+          min={filters.created_after}
+          onChange={(e) => onChange({ created_before: e.target.value || undefined })}
+        />
+      </div>
+
+      <select
+        aria-label="Sort"
+        className={SELECT_CLASS}
+        value={filters.sort ?? DEFAULT_EMAIL_SORT}
+        onChange={(e) => onChange({ sort: e.target.value as EmailSort })}
+      >
+        {Object.entries(EMAIL_SORT_LABELS).map(([value, label]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {hasActiveEmailFilters(filters) && (
+        <Button variant="ghost" size="sm" className="h-9 text-muted-foreground" onClick={onClear}>
+          <X className="mr-1 h-3.5 w-3.5" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Check, Loader2 } from "lucide-react";
+import { useEmailDiscard } from "@/hooks/useEmailDiscard";
+import type { EmailResponse } from "@/lib/api";
+import { diffWords } from "@/lib/text-diff";
+import { toastService } from "@/lib/toast-service";
+import { DiffView } from "@/components/DiffView";
+import { Button } from "@/components/ui/button";
+
+interface EmailVersionsProps {
+  email: EmailResponse;
+  // All versions in the chain, original first
+  versions: EmailResponse[];
+  onKeep: (emailId: string) => void;
+}
+
+function versionLabel(versions: EmailResponse[], email: EmailResponse): string {
+  const index = versions.findIndex((version) => version.id === email.id);
+  return index === 0 ? "Original" : `Regeneration ${index}`;
+}
+
+/**
+ * Side-by-side comparison of an email with another version of it
+ */
+export function EmailVersions({ email, versions, onKeep }: EmailVersionsProps) {
+  const others = versions.filter((version) => version.id !== email.id);
+  const [otherId, setOtherId] = useState<string | null>(null);
+  const [keepingId, setKeepingId] = useState<string | null>(null);
+  const { mutateAsync: discardEmail } = useEmailDiscard();
+
+  // Default to the most recent other version
+  const other = others.find((version) => version.id === otherId) ?? others[others.length - 1];
+
+  // Older version on the left so additions read as what changed
+  const [left, right] =
+    other && other.created_at < email.created_at ? [other, email] : [email, other];
+  const segments = useMemo(
+    () => (left && right ? diffWords(left.email_message, right.email_message) : []),
+    [left, right]
+  );
+
+  const handleKeep = async (kept: EmailResponse) => {
+    setKeepingId(kept.id);
+    try {
+      await Promise.all(
+        versions
+          .filter((version) => version.id !== kept.id)
+          .map((version) => discardEmail({ emailId: version.id, displayed: false }))
+      );
+      toastService.success(`Kept ${versionLabel(versions, kept).toLowerCase()}, other versions moved to trash`);
+      onKeep(kept.id);
+    } catch {
+      toastService.errorMessage("Failed to discard the other versions");
+    } finally {
+      setKeepingId(null);
+    }
+  };
+
+  if (!other) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {others.length > 1 && (
+        <select
+          aria-label="Compare with version"
+          className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+          value={other.id}
+          onChange={(e) => setOtherId(e.target.value)}
+        >
+          {others.map((version) => (
+            <option key={version.id} value={version.id}>
+              {versionLabel(versions, version)} ·{" "}
+              {new Date(version.created_at).toLocaleString("en-US", {
+                month: "short",
+                day: "numeric",
+                hour: "numeric",
+                minute: "2-digit",
+              })}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <div className="grid gap-3 md:grid-cols-2">
+        {[left, right].map((version, index) => (
+          <div key={version.id} className="flex flex-col rounded-md border border-border">
+            <div className="flex items-center justify-between gap-2 border-b border-border bg-muted/30 px-3 py-2">
+              <span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                {versionLabel(versions, version)}
+                {version.id === email.id && " (viewing)"}
+              </span>
+              <span
+                className={`rounded-full border px-2 py-0.5 text-[11px] font-medium ${
+                  version.is_confident
+                    ? "border-green-500/20 bg-green-500/10 text-green-600 dark:text-green-400"
+                    : "border-amber-500/20 bg-amber-500/10 text-amber-600 dark:text-amber-400"
+                }`}
+              >
+                {version.is_confident ? "Confident" : "Draft"}
+              </span>
+            </div>
+            <DiffView
+              segments={segments}
+              side={index === 0 ? "before" : "after"}
+              className="flex-1 px-3 py-2"
+            />
+            <div className="border-t border-border p-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => handleKeep(version)}
+                disabled={keepingId !== null}
+              >
+                {keepingId === version.id ? (
+                  <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <Check className="mr-2 h-3.5 w-3.5" />
+                )}
+                Keep this version
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { AlertCircle, Download, Loader2, RotateCw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { EXPORT_FORMATS, type ExportFormat, type ExportOptions } from "@/lib/email-export";
+import { EXPORT_COLUMNS, type ExportColumn } from "@/lib/email-export-columns";
+import { useExportOptions, useSetExportOptions } from "@/stores/ui-store";
+import type { ExportProgress } from "@/hooks/useEmailExport";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Number of selected emails being exported; null exports the full history
+  selectedCount: number | null;
+  onExport: (options: ExportOptions) => Promise<void> | void;
+  // Background export of the full history (see useEmailExport)
+  progress?: ExportProgress;
+  error?: string | null;
+  onResume?: () => void;
+  onCancel?: () => void;
+}
+
+export function ExportDialog({
+  open,
+  onOpenChange,
+  selectedCount,
+  onExport,
+  progress,
+  error,
+  onResume,
+  onCancel,
+}: ExportDialogProps) {
+  const savedOptions = useExportOptions();
+  const saveOptions = useSetExportOptions();
+  const [format, setFormat] = useState<ExportFormat>(savedOptions.format);
+  const [columns, setColumns] = useState<ExportColumn[]>(savedOptions.columns);
+  const [submitting, setSubmitting] = useState(false);
+
+  const usesColumns = EXPORT_FORMATS[format].usesColumns;
+  const runningProgress = progress && progress.status !== "idle" ? progress : null;
+  const canExport = !usesColumns || columns.length > 0;
+
+  const toggleColumn = (key: ExportColumn, checked: boolean) => {
+    setColumns((current) => (checked ? [...current, key] : current.filter((column) => column !== key)));
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!canExport) return;
+
+    const options = { format, columns };
+    saveOptions(options);
+    setSubmitting(true);
+    try {
+      await onExport(options);
+      onOpenChange(false);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Closing the dialog mid-export cancels it
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && runningProgress) {
+      onCancel?.();
+      return;
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        {runningProgress ? (
+          <div className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Exporting email history</DialogTitle>
+              <DialogDescription>
+                Writing {EXPORT_FORMATS[format].label} in the background. Large histories can take a minute.
+              </DialogDescription>
+            </DialogHeader>
+            <ExportProgressView progress={runningProgress} error={error ?? null} />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel export
+              </Button>
+              {runningProgress.status === "failed" && (
+                <Button type="button" onClick={onResume}>
+                  <RotateCw className="mr-2 h-4 w-4" />
+                  Resume from page {runningProgress.failedPage}
+                </Button>
+              )}
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                {selectedCount === null
+                  ? "Export email history"
+                  : `Export ${selectedCount} selected email${selectedCount === 1 ? "" : "s"}`}
+              </DialogTitle>
+              <DialogDescription>
+                {selectedCount === null
+                  ? "Downloads every email in your history, excluding trash."
+                  : "Downloads only the emails you selected."}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="export-format">Format</Label>
+              <select
+                id="export-format"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as ExportFormat)}
+                disabled={submitting}
+                className="h-9 w-full rounded-md border border-input bg-card px-2 text-sm text-foreground"
+              >
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((value) => (
+                  <option key={value} value={value}>
+                    {EXPORT_FORMATS[value].label} — {EXPORT_FORMATS[value].description}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <fieldset className="space-y-2" disabled={!usesColumns || submitting}>
+              <legend className="text-sm font-medium">Columns</legend>
+              {usesColumns ? (
+                <div className="grid grid-cols-2 gap-2">
+                  {EXPORT_COLUMNS.map((column) => (
+                    <label key={column.key} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={columns.includes(column.key)}
+                        onChange={(e) => toggleColumn(column.key, e.target.checked)}
+                      />
+                      {column.label}
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {format === "merge"
+                    ? "Rows use the recipient email and subject entered on the Generate page. Emails without an address get an empty To cell."
+                    : `${EXPORT_FORMATS[format].label} always includes the complete email.`}
+                </p>
+              )}
+              {!canExport && <p className="text-xs text-destructive">Select at least one column</p>}
+            </fieldset>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!canExport || submitting}>
+                {submitting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="mr-2 h-4 w-4" />
+                )}
+                Export
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ExportProgressView({ progress, error }: { progress: ExportProgress; error: string | null }) {
+  const { status, pagesFetched, rowsFetched, rowsWritten, failedPage } = progress;
+  const writtenPercent = rowsFetched > 0 ? Math.round((rowsWritten / rowsFetched) * 100) : 0;
+
+  return (
+    <div className="space-y-2">
+      <div
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={writtenPercent}
+        className="h-2 w-full overflow-hidden rounded-full bg-muted"
+      >
+        <div
+          className={cn(
+            "h-full rounded-full transition-all",
+            status === "failed" ? "bg-destructive" : "bg-primary",
+            status === "fetching" && "animate-pulse"
+          )}
+          style={{ width: `${Math.max(writtenPercent, 5)}%` }}
+        />
+      </div>
+
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>
+          {pagesFetched} page{pagesFetched === 1 ? "" : "s"} fetched
+        </span>
+        <span>
+          {rowsWritten.toLocaleString()} of {rowsFetched.toLocaleString()} rows written
+        </span>
+      </div>
+
+      {status === "building" && (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Building file…
+        </p>
+      )}
+      {status === "failed" && (
+        <p className="flex items-start gap-1.5 rounded-md bg-destructive/10 px-3 py-2 text-xs text-destructive">
+          <AlertCircle className="mt-px h-3.5 w-3.5 shrink-0" />
+          Page {failedPage} failed: {error ?? "Export failed"}. Rows already written are kept.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { FormEvent, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, Loader2, RefreshCw } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useQueueManager } from "@/hooks/useQueueManager";
+import { api, type EmailResponse } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+import { RegenerateEmailRequestSchema } from "@/lib/schemas";
+import { getRecipientEmail, getSourceTemplate, getSubjectTemplate } from "@/lib/email-metadata";
+import { analyzeTemplate } from "@/lib/template-engine";
+import { cn } from "@/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+interface RegenerateDialogProps {
+  email: EmailResponse;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Re-queue an email's recipient, optionally with a tweaked interest or template
+ *
+ * Mount only while open so the fields start from the email each time.
+ */
+export function RegenerateDialog({ email, onOpenChange }: RegenerateDialogProps) {
+  const { user, supabaseReady } = useAuth();
+  const { regenerateEmail } = useQueueManager();
+  const recordedTemplate = getSourceTemplate(email);
+
+  const [interest, setInterest] = useState(email.recipient_interest);
+  const [templateOverride, setTemplateOverride] = useState<string | null>(null);
+  const [showTemplate, setShowTemplate] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Fall back to the current profile template when the email didn't record one
+  const { data: userProfile, isLoading: profileLoading } = useQuery({
+    queryKey: queryKeys.user.profile(),
+    queryFn: ({ signal }) => api.template.getUserProfile({ signal }),
+    enabled: !recordedTemplate && !!user?.uid && supabaseReady,
+    staleTime: 30000,
+  });
+
+  const template = templateOverride ?? recordedTemplate ?? userProfile?.email_template ?? "";
+  const templateAnalysis = useMemo(() => analyzeTemplate(template), [template]);
+  const templateError = templateAnalysis.issues.find((issue) => issue.severity === "error");
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    const result = RegenerateEmailRequestSchema.safeParse({
+      source_email_id: email.id,
+      recipient_name: email.recipient_name,
+      recipient_interest: interest.trim(),
+      recipient_email: getRecipientEmail(email) ?? undefined,
+      subject_template: getSubjectTemplate(email) ?? undefined,
+      email_template: template,
+    });
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? "Invalid request");
+      return;
+    }
+    if (templateError) {
+      setShowTemplate(true);
+      setError(templateError.message);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await regenerateEmail(result.data);
+      onOpenChange(false);
+    } catch {
+      // Failure toast is shown by the mutation
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Regenerate email</DialogTitle>
+            <DialogDescription>
+              Queue a new email for {email.recipient_name}. The current version is kept so you
+              can compare both and keep the better one.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="regenerate-interest">Research interest</Label>
+            <Input
+              id="regenerate-interest"
+              value={interest}
+              onChange={(e) => {
+                setInterest(e.target.value);
+                setError(null);
+              }}
+              disabled={submitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <button
+              type="button"
+              onClick={() => setShowTemplate((open) => !open)}
+              className="flex items-center gap-1 text-sm font-medium text-foreground"
+            >
+              <ChevronDown
+                className={cn("h-4 w-4 transition-transform", !showTemplate && "-rotate-90")}
+              />
+              Template
+              {templateOverride !== null && (
+                <span className="text-xs font-normal text-muted-foreground">(edited)</span>
+              )}
+            </button>
+            {showTemplate && (
+              <Textarea
+                aria-label="Template"
+                className="min-h-[220px] font-mono text-xs leading-relaxed"
+                value={template}
+                placeholder={profileLoading ? "Loading template..." : undefined}
+                onChange={(e) => {
+                  setTemplateOverride(e.target.value);
+                  setError(null);
+                }}
+                disabled={submitting}
+              />
+            )}
+          </div>
+
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting || (!template && profileLoading)}>
+              {submitting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              Regenerate
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
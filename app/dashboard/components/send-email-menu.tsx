@@ -0,0 +1,88 @@
+"use client";
+
+import { Download, Mail, Send } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import type { EmailResponse } from "@/lib/schemas";
+import { getRecipientEmail, getResolvedSubject } from "@/lib/email-metadata";
+import { buildEmlFile } from "@/lib/email-export";
+import { buildMailtoLink } from "@/lib/mailto";
+import { downloadBlob } from "@/lib/download";
+import { toastService } from "@/lib/toast-service";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface SendEmailMenuProps {
+  email: EmailResponse;
+}
+
+export function SendEmailMenu({ email }: SendEmailMenuProps) {
+  const { user } = useAuth();
+  const recipientEmail = getRecipientEmail(email);
+
+  const handleDownloadEml = () => {
+    const { blob, filename } = buildEmlFile(email, user?.email);
+    downloadBlob(blob, filename);
+  };
+
+  const handleOpenMailto = async () => {
+    const link = buildMailtoLink({
+      to: recipientEmail,
+      subject: getResolvedSubject(email),
+      body: email.email_message,
+    });
+
+    // Long bodies don't fit in a mailto link; hand them over via the clipboard
+    if (!link.includesBody) {
+      try {
+        await navigator.clipboard.writeText(email.email_message);
+        toastService.info("Email is too long for a mail link. The body is on your clipboard; paste it into the draft.", {
+          duration: 8000,
+          action: { label: "Download .eml", onClick: handleDownloadEml },
+        });
+      } catch {
+        toastService.warning("Email is too long for a mail link. Download it as an .eml draft instead.", {
+          action: { label: "Download .eml", onClick: handleDownloadEml },
+        });
+        return;
+      }
+    }
+
+    window.location.href = link.href;
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 bg-card shadow-xs hover:bg-accent hover:text-accent-foreground"
+          aria-label="Send"
+        >
+          <Send className="h-3.5 w-3.5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="truncate text-xs font-normal text-muted-foreground">
+          {recipientEmail ? `To: ${recipientEmail}` : "No recipient address saved"}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={handleOpenMailto}>
+          <Mail className="mr-2 h-3.5 w-3.5" />
+          Open in email app
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={handleDownloadEml}>
+          <Download className="mr-2 h-3.5 w-3.5" />
+          Download .eml draft
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
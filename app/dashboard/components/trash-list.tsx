@@ -0,0 +1,100 @@
+"use client";
+
+import { ArchiveRestore, Trash2 } from "lucide-react";
+import type { EmailResponse } from "@/lib/api";
+import type { EmailSelectionState } from "@/hooks/useEmailSelection";
+import { Button } from "@/components/ui/button";
+
+interface TrashListProps {
+  emails: EmailResponse[];
+  selection: EmailSelectionState;
+  onRestore: (emailIds: string[]) => void;
+  // Confirmation is left to the caller
+  onDelete: (emailIds: string[]) => void;
+  busy: boolean;
+}
+
+export function TrashList({ emails, selection, onRestore, onDelete, busy }: TrashListProps) {
+  if (emails.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center gap-2 px-6 py-12 text-center text-sm">
+        <div className="p-3 bg-muted rounded-full">
+          <Trash2 className="h-6 w-6 text-muted-foreground" />
+        </div>
+        <p className="font-medium text-foreground">Trash is empty</p>
+        <p className="text-muted-foreground">Discarded emails show up here so you can restore them.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="border-b border-border bg-muted/50 px-6 py-3">
+        <label className="flex items-center gap-3 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          <input
+            type="checkbox"
+            aria-label="Select all"
+            checked={selection.allSelected}
+            ref={(input) => {
+              if (input) input.indeterminate = selection.someSelected;
+            }}
+            onChange={() => (selection.allSelected ? selection.clear() : selection.selectAll())}
+          />
+          {emails.length} discarded
+        </label>
+      </div>
+
+      <ul className="divide-y divide-border/50">
+        {emails.map((email) => (
+          <li
+            key={email.id}
+            className={`group flex items-start gap-3 px-6 py-4 hover:bg-muted/50 transition-colors duration-150 ${
+              selection.isSelected(email.id) ? 'bg-primary/5' : ''
+            }`}
+          >
+            <input
+              type="checkbox"
+              aria-label={`Select email to ${email.recipient_name}`}
+              className="mt-1"
+              checked={selection.isSelected(email.id)}
+              readOnly
+              onClick={(e) => selection.toggle(email.id, e.shiftKey)}
+            />
+            <div className="min-w-0 flex-1">
+              <div className="flex flex-wrap items-baseline gap-x-3">
+                <span className="text-sm font-medium text-foreground">{email.recipient_name}</span>
+                <span className="text-xs text-muted-foreground">{email.recipient_interest}</span>
+              </div>
+              <p className="mt-1 line-clamp-2 text-sm text-muted-foreground">
+                {email.subject ? `${email.subject} — ` : ""}
+                {email.email_message}
+              </p>
+            </div>
+            <div className="flex shrink-0 gap-2 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 bg-card shadow-xs"
+                onClick={() => onRestore([email.id])}
+                disabled={busy}
+                aria-label="Restore"
+              >
+                <ArchiveRestore className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 bg-card shadow-xs hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
+                onClick={() => onDelete([email.id])}
+                disabled={busy}
+                aria-label="Delete forever"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import { ClipboardEvent, KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
+import { Plus, Trash2, FileSpreadsheet, CopyX, Eraser, Mail } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  MAX_BATCH_SIZE,
+  hasMergeFields,
+  parsePastedRows,
+  removeDuplicateRows,
+  validateDraftRows,
+} from "@/lib/batch-draft";
+import type { BatchItem } from "@/lib/schemas";
+import {
+  useBatchDraft,
+  useSetBatchDraft,
+  useUpdateDraftRow,
+  useInsertDraftRows,
+  useRemoveDraftRow,
+  useResetForm,
+} from "@/stores/ui-store";
+
+interface BatchGridProps {
+  onImportClick: () => void;
+  disabled?: boolean;
+}
+
+const CELL_INPUT_CLASS =
+  "w-full h-9 rounded-md border border-transparent bg-transparent px-2 text-sm text-foreground placeholder:text-muted-foreground/60 hover:border-border focus-visible:outline-hidden focus-visible:border-input focus-visible:bg-background focus-visible:ring-2 focus-visible:ring-ring/40 disabled:opacity-50 transition-colors";
+
+function focusCell(rowId: string, field: keyof BatchItem) {
+  document
+    .querySelector<HTMLInputElement>(`[data-row-id="${rowId}"][data-field="${field}"]`)
+    ?.focus();
+}
+
+export function BatchGrid({ onImportClick, disabled = false }: BatchGridProps) {
+  const rows = useBatchDraft();
+  const setRows = useSetBatchDraft();
+  const updateRow = useUpdateDraftRow();
+  const insertRows = useInsertDraftRows();
+  const removeRow = useRemoveDraftRow();
+  const resetForm = useResetForm();
+
+  const validation = useMemo(() => validateDraftRows(rows), [rows]);
+
+  // Mail-merge columns stay hidden until asked for (or a row already uses them)
+  const [mergeFieldsToggled, setMergeFieldsToggled] = useState(false);
+  const rowsHaveMergeFields = rows.some(hasMergeFields);
+  const showMergeFields = mergeFieldsToggled || rowsHaveMergeFields;
+
+  // Row inserted via Enter - focused once it has rendered
+  const pendingFocusIndexRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (pendingFocusIndexRef.current === null) return;
+    const row = rows[pendingFocusIndexRef.current];
+    if (row) focusCell(row.id, "recipient_name");
+    pendingFocusIndexRef.current = null;
+  }, [rows]);
+
+  const handlePaste = (
+    event: ClipboardEvent<HTMLInputElement>,
+    rowId: string,
+    index: number
+  ) => {
+    const text = event.clipboardData.getData("text");
+    if (!/[\n\t]/.test(text.trim())) return;
+
+    event.preventDefault();
+    const items = parsePastedRows(text);
+    if (items.length === 0) return;
+
+    const current = rows[index];
+    const currentIsEmpty =
+      !current.recipient_name.trim() && !current.recipient_interest.trim() && !hasMergeFields(current);
+    if (items.some(hasMergeFields)) setMergeFieldsToggled(true);
+
+    if (currentIsEmpty) {
+      const [first, ...rest] = items;
+      updateRow(rowId, first);
+      insertRows(rowId, rest);
+    } else {
+      insertRows(rowId, items);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>, rowId: string, index: number) => {
+    if (event.key !== "Enter") return;
+    event.preventDefault();
+
+    const next = rows[index + 1];
+    if (next) {
+      focusCell(next.id, "recipient_name");
+      return;
+    }
+
+    insertRows(rowId, [{ recipient_name: "", recipient_interest: "" }]);
+    pendingFocusIndexRef.current = index + 1;
+  };
+
+  const recipientCount = validation.items.length;
+  const overLimit = recipientCount > MAX_BATCH_SIZE;
+
+  return (
+    <div className="space-y-3">
+      <div className="border border-border rounded-lg overflow-hidden bg-muted/30">
+        <div className="max-h-[420px] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 border-b border-border sticky top-0 z-10">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-semibold text-muted-foreground w-10">#</th>
+                <th
+                  className={cn(
+                    "px-1 py-2 text-left text-xs font-semibold text-muted-foreground",
+                    showMergeFields ? "w-[22%]" : "w-[40%]"
+                  )}
+                >
+                  Name
+                </th>
+                <th className="px-1 py-2 text-left text-xs font-semibold text-muted-foreground">Research Interest</th>
+                {showMergeFields && (
+                  <>
+                    <th className="px-1 py-2 text-left text-xs font-semibold text-muted-foreground w-[22%]">Email</th>
+                    <th className="px-1 py-2 text-left text-xs font-semibold text-muted-foreground w-[22%]">Subject</th>
+                  </>
+                )}
+                <th className="w-10" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {rows.map((row, index) => {
+                const rowValidation = validation.rows[row.id];
+                const errors = rowValidation?.errors ?? {};
+                const isDuplicate = rowValidation?.isDuplicate ?? false;
+
+                return (
+                  <tr
+                    key={row.id}
+                    className={cn(
+                      "group align-top",
+                      Object.values(errors).some(Boolean) && "bg-destructive/5",
+                      isDuplicate && "bg-amber-500/5"
+                    )}
+                  >
+                    <td className="px-3 py-2.5 text-xs text-muted-foreground font-mono">{index + 1}</td>
+                    <td className="px-1 py-1">
+                      <input
+                        aria-label={`Recipient ${index + 1} name`}
+                        data-row-id={row.id}
+                        data-field="recipient_name"
+                        className={cn(CELL_INPUT_CLASS, errors.recipient_name && "border-destructive/40")}
+                        placeholder="Dr. Jane Smith"
+                        value={row.recipient_name}
+                        onChange={(e) => updateRow(row.id, { recipient_name: e.target.value })}
+                        onPaste={(e) => handlePaste(e, row.id, index)}
+                        onKeyDown={(e) => handleKeyDown(e, row.id, index)}
+                        disabled={disabled}
+                      />
+                      {errors.recipient_name && (
+                        <p className="px-2 pt-1 text-xs text-destructive">{errors.recipient_name}</p>
+                      )}
+                      {isDuplicate && (
+                        <p className="px-2 pt-1 text-xs text-amber-600 dark:text-amber-400">Duplicate recipient</p>
+                      )}
+                    </td>
+                    <td className="px-1 py-1">
+                      <input
+                        aria-label={`Recipient ${index + 1} research interest`}
+                        data-row-id={row.id}
+                        data-field="recipient_interest"
+                        className={cn(CELL_INPUT_CLASS, errors.recipient_interest && "border-destructive/40")}
+                        placeholder="e.g. Natural Language Processing"
+                        value={row.recipient_interest}
+                        onChange={(e) => updateRow(row.id, { recipient_interest: e.target.value })}
+                        onPaste={(e) => handlePaste(e, row.id, index)}
+                        onKeyDown={(e) => handleKeyDown(e, row.id, index)}
+                        disabled={disabled}
+                      />
+                      {errors.recipient_interest && (
+                        <p className="px-2 pt-1 text-xs text-destructive">{errors.recipient_interest}</p>
+                      )}
+                    </td>
+                    {showMergeFields && (
+                      <>
+                        <td className="px-1 py-1">
+                          <input
+                            type="email"
+                            aria-label={`Recipient ${index + 1} email`}
+                            data-row-id={row.id}
+                            data-field="recipient_email"
+                            className={cn(CELL_INPUT_CLASS, errors.recipient_email && "border-destructive/40")}
+                            placeholder="jsmith@university.edu"
+                            value={row.recipient_email ?? ""}
+                            onChange={(e) => updateRow(row.id, { recipient_email: e.target.value })}
+                            onPaste={(e) => handlePaste(e, row.id, index)}
+                            onKeyDown={(e) => handleKeyDown(e, row.id, index)}
+                            disabled={disabled}
+                          />
+                          {errors.recipient_email && (
+                            <p className="px-2 pt-1 text-xs text-destructive">{errors.recipient_email}</p>
+                          )}
+                        </td>
+                        <td className="px-1 py-1">
+                          <input
+                            aria-label={`Recipient ${index + 1} subject`}
+                            data-row-id={row.id}
+                            data-field="subject_template"
+                            className={cn(CELL_INPUT_CLASS, errors.subject_template && "border-destructive/40")}
+                            placeholder="Research inquiry for {{professor_name}}"
+                            value={row.subject_template ?? ""}
+                            onChange={(e) => updateRow(row.id, { subject_template: e.target.value })}
+                            onPaste={(e) => handlePaste(e, row.id, index)}
+                            onKeyDown={(e) => handleKeyDown(e, row.id, index)}
+                            disabled={disabled}
+                          />
+                          {errors.subject_template && (
+                            <p className="px-2 pt-1 text-xs text-destructive">{errors.subject_template}</p>
+                          )}
+                        </td>
+                      </>
+                    )}
+                    <td className="px-1 py-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Remove recipient ${index + 1}`}
+                        className="h-9 w-9 text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100 hover:text-destructive transition-opacity"
+                        onClick={() => removeRow(row.id)}
+                        disabled={disabled}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-8 bg-card"
+          onClick={() => insertRows(null, [{ recipient_name: "", recipient_interest: "" }])}
+          disabled={disabled}
+        >
+          <Plus className="mr-1.5 h-3.5 w-3.5" />
+          Add row
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-8 bg-card"
+          onClick={onImportClick}
+          disabled={disabled}
+        >
+          <FileSpreadsheet className="mr-1.5 h-3.5 w-3.5" />
+          Import CSV/XLSX
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className={cn("h-8", showMergeFields ? "text-foreground" : "text-muted-foreground")}
+          onClick={() => setMergeFieldsToggled(!showMergeFields)}
+          disabled={disabled || rowsHaveMergeFields}
+          title={rowsHaveMergeFields ? "Clear the email and subject cells to hide these columns" : undefined}
+        >
+          <Mail className="mr-1.5 h-3.5 w-3.5" />
+          Email &amp; subject
+        </Button>
+        {validation.duplicateCount > 0 && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-8 bg-card text-amber-600 dark:text-amber-400"
+            onClick={() => setRows(removeDuplicateRows(rows))}
+            disabled={disabled}
+          >
+            <CopyX className="mr-1.5 h-3.5 w-3.5" />
+            Remove duplicates
+          </Button>
+        )}
+        {recipientCount > 0 && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 text-muted-foreground"
+            onClick={resetForm}
+            disabled={disabled}
+          >
+            <Eraser className="mr-1.5 h-3.5 w-3.5" />
+            Clear
+          </Button>
+        )}
+
+        <p className={cn("ml-auto text-xs", overLimit ? "text-destructive" : "text-muted-foreground")}>
+          {recipientCount} / {MAX_BATCH_SIZE} recipients
+          {validation.errorCount > 0 && ` · ${validation.errorCount} with errors`}
+        </p>
+      </div>
+    </div>
+  );
+}
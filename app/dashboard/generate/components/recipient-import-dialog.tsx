@@ -0,0 +1,270 @@
+"use client";
+
+import { ChangeEvent, useMemo, useState } from "react";
+import { FileSpreadsheet, Loader2, Plus, AlertCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  RECIPIENT_IMPORT_ACCEPT,
+  RecipientImportError,
+  buildImportedRows,
+  guessColumnMapping,
+  parseRecipientFile,
+  type ColumnMapping,
+  type ParsedSheet,
+} from "@/lib/recipient-import";
+import { IMPORT_ERRORS } from "@/constants/error-messages";
+import type { BatchItem } from "@/lib/schemas";
+
+interface RecipientImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (items: BatchItem[]) => void;
+}
+
+const SELECT_CLASS =
+  "flex h-9 w-full rounded-md border border-input bg-background px-3 text-sm focus-visible:outline-hidden focus-visible:ring-2 focus-visible:ring-ring";
+
+const EMPTY_MAPPING: ColumnMapping = { name: null, interest: null, email: null, subject: null };
+
+function ColumnSelect({
+  id,
+  label,
+  headers,
+  value,
+  onChange,
+  placeholder = "Select a column",
+}: {
+  id: string;
+  label: string;
+  headers: string[];
+  value: string | null;
+  onChange: (value: string | null) => void;
+  placeholder?: string;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <Label htmlFor={id} className="text-xs font-medium text-muted-foreground">
+        {label}
+      </Label>
+      <select
+        id={id}
+        className={SELECT_CLASS}
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+      >
+        <option value="">{placeholder}</option>
+        {headers.map((header) => (
+          <option key={header} value={header}>
+            {header}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export function RecipientImportDialog({
+  open,
+  onOpenChange,
+  onImport,
+}: RecipientImportDialogProps) {
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [error, setError] = useState<string | null>(null);
+  const [parsing, setParsing] = useState(false);
+
+  const rows = useMemo(
+    () => (sheet ? buildImportedRows(sheet, mapping) : []),
+    [sheet, mapping]
+  );
+  const validItems = rows.filter((row) => row.errors.length === 0).map((row) => row.item);
+  const invalidCount = rows.length - validItems.length;
+
+  const reset = () => {
+    setSheet(null);
+    setMapping(EMPTY_MAPPING);
+    setError(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setParsing(true);
+    setError(null);
+
+    try {
+      const parsed = await parseRecipientFile(file);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (err) {
+      setSheet(null);
+      setError(
+        err instanceof RecipientImportError
+          ? err.getUserMessage()
+          : IMPORT_ERRORS.PARSE_FAILED.user
+      );
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    onImport(validItems);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Recipients</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file with one recipient per row. The first row must contain
+            column headers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="bg-muted/30 p-4 rounded-xl border border-dashed border-border">
+            <Label htmlFor="recipient-file" className="flex items-center gap-2 text-sm font-medium text-foreground mb-2">
+              <FileSpreadsheet className="h-4 w-4 text-muted-foreground" />
+              {sheet ? sheet.fileName : "Choose a file"}
+            </Label>
+            <Input
+              id="recipient-file"
+              type="file"
+              accept={RECIPIENT_IMPORT_ACCEPT}
+              onChange={handleFileChange}
+              disabled={parsing}
+              className="cursor-pointer"
+            />
+          </div>
+
+          {parsing && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading file...
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-3 text-sm text-destructive flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {sheet && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <ColumnSelect
+                  id="import-name-column"
+                  label="Recipient name column"
+                  headers={sheet.headers}
+                  value={mapping.name}
+                  onChange={(name) => setMapping((m) => ({ ...m, name }))}
+                />
+                <ColumnSelect
+                  id="import-interest-column"
+                  label="Research interest column"
+                  headers={sheet.headers}
+                  value={mapping.interest}
+                  onChange={(interest) => setMapping((m) => ({ ...m, interest }))}
+                />
+                <ColumnSelect
+                  id="import-email-column"
+                  label="Email column (optional)"
+                  headers={sheet.headers}
+                  value={mapping.email}
+                  onChange={(email) => setMapping((m) => ({ ...m, email }))}
+                  placeholder="None"
+                />
+                <ColumnSelect
+                  id="import-subject-column"
+                  label="Subject column (optional)"
+                  headers={sheet.headers}
+                  value={mapping.subject}
+                  onChange={(subject) => setMapping((m) => ({ ...m, subject }))}
+                  placeholder="None"
+                />
+              </div>
+
+              <div className="border border-border rounded-lg overflow-hidden">
+                <div className="max-h-72 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50 border-b border-border sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-xs font-semibold text-muted-foreground w-12">Row</th>
+                        <th className="px-3 py-2 text-left text-xs font-semibold text-muted-foreground">Name</th>
+                        <th className="px-3 py-2 text-left text-xs font-semibold text-muted-foreground">Interest</th>
+                        {mapping.email && (
+                          <th className="px-3 py-2 text-left text-xs font-semibold text-muted-foreground">Email</th>
+                        )}
+                        <th className="px-3 py-2 text-left text-xs font-semibold text-muted-foreground">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border/50">
+                      {rows.map((row) => (
+                        <tr
+                          key={row.rowNumber}
+                          className={cn(row.errors.length > 0 && "bg-destructive/5")}
+                        >
+                          <td className="px-3 py-2 text-xs text-muted-foreground font-mono">{row.rowNumber}</td>
+                          <td className="px-3 py-2 text-foreground">{row.item.recipient_name || "—"}</td>
+                          <td className="px-3 py-2 text-muted-foreground">{row.item.recipient_interest || "—"}</td>
+                          {mapping.email && (
+                            <td className="px-3 py-2 text-muted-foreground">{row.item.recipient_email || "—"}</td>
+                          )}
+                          <td className="px-3 py-2 text-xs">
+                            {row.errors.length > 0 ? (
+                              <span className="text-destructive">{row.errors.join(", ")}</span>
+                            ) : (
+                              <span className="text-green-600 dark:text-green-400">Ready</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                {validItems.length} valid
+                {invalidCount > 0 && `, ${invalidCount} with errors (skipped)`}
+              </p>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!sheet || validItems.length === 0}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add {validItems.length} {validItems.length === 1 ? "Recipient" : "Recipients"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useRef } from "react";
+import { AlertCircle, AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { TemplateAnalysis } from "@/lib/template-engine";
+
+interface TemplateEditorProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  analysis: TemplateAnalysis;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+// Shared by the textarea and its highlight backdrop so both wrap identically
+const EDITOR_TEXT_CLASS =
+  "px-3 py-2 font-mono text-xs leading-relaxed whitespace-pre-wrap wrap-break-word";
+
+/**
+ * Template textarea with {{variable}} highlighting
+ *
+ * A transparent textarea sits over a backdrop that renders the same text
+ * with highlighted placeholders; the backdrop scrolls in lockstep.
+ */
+export function TemplateEditor({
+  id,
+  value,
+  onChange,
+  analysis,
+  placeholder,
+  disabled = false,
+}: TemplateEditorProps) {
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  return (
+    <div className="space-y-2">
+      <div className="relative rounded-md bg-muted/30">
+        <div
+          ref={backdropRef}
+          aria-hidden
+          className={cn(
+            EDITOR_TEXT_CLASS,
+            "absolute inset-0 overflow-hidden border border-transparent text-transparent pointer-events-none"
+          )}
+        >
+          {analysis.tokens.map((token) =>
+            token.type === "text" ? (
+              <span key={token.start}>{token.value}</span>
+            ) : (
+              <mark
+                key={token.start}
+                className={cn(
+                  "rounded-sm text-transparent",
+                  token.type === "variable" && token.known
+                    ? "bg-primary/15"
+                    : "bg-destructive/20 underline decoration-destructive decoration-wavy"
+                )}
+              >
+                {token.raw}
+              </mark>
+            )
+          )}
+          {/* Trailing newline keeps the backdrop height in sync with the textarea */}
+          {"\n"}
+        </div>
+        <textarea
+          id={id}
+          placeholder={placeholder}
+          className={cn(
+            EDITOR_TEXT_CLASS,
+            "relative flex w-full min-h-[450px] rounded-md border border-input bg-transparent text-foreground caret-foreground ring-offset-background placeholder:text-muted-foreground focus-visible:outline-hidden focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-colors duration-200 hover:border-gray-400"
+          )}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => {
+            if (backdropRef.current) {
+              backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+            }
+          }}
+          spellCheck={false}
+          disabled={disabled}
+        />
+      </div>
+
+      {analysis.issues.length > 0 && (
+        <ul className="space-y-1">
+          {analysis.issues.map((issue) => (
+            <li
+              key={`${issue.start}-${issue.message}`}
+              className={cn(
+                "flex items-start gap-1.5 text-xs",
+                issue.severity === "error"
+                  ? "text-destructive"
+                  : "text-amber-600 dark:text-amber-400"
+              )}
+            >
+              {issue.severity === "error" ? (
+                <AlertCircle className="h-3.5 w-3.5 mt-px shrink-0" />
+              ) : (
+                <AlertTriangle className="h-3.5 w-3.5 mt-px shrink-0" />
+              )}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
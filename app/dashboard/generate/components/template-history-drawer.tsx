@@ -0,0 +1,186 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { History, Loader2, RotateCcw, HardDrive } from "lucide-react";
+import { useTemplateHistory } from "@/hooks/useTemplateHistory";
+import { diffWords, getDiffStats } from "@/lib/text-diff";
+import { toastService } from "@/lib/toast-service";
+import { cn } from "@/lib/utils";
+import { DiffView } from "@/components/DiffView";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+interface TemplateHistoryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentText: string;
+  onRestore: (text: string) => void;
+}
+
+// "restore" previews what restoring would change in the editor,
+// "previous" shows what changed when the version was saved
+type CompareMode = "restore" | "previous";
+
+function formatVersionTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function TemplateHistoryDrawer({
+  open,
+  onOpenChange,
+  currentText,
+  onRestore,
+}: TemplateHistoryDrawerProps) {
+  const { versions, source, isLoading, recordSnapshot } = useTemplateHistory(open);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>("restore");
+
+  const selectedIndex = Math.max(
+    0,
+    versions.findIndex((version) => version.id === selectedId)
+  );
+  const selected = versions[selectedIndex];
+  const previous = versions[selectedIndex + 1];
+
+  const segments = useMemo(() => {
+    if (!selected) return [];
+    return compareMode === "restore"
+      ? diffWords(currentText, selected.template_text)
+      : diffWords(previous?.template_text ?? "", selected.template_text);
+  }, [selected, previous, compareMode, currentText]);
+  const stats = getDiffStats(segments);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+
+    // Keep the text being replaced so the restore itself can be undone
+    if (currentText.trim()) {
+      await recordSnapshot(currentText);
+    }
+    onRestore(selected.template_text);
+    onOpenChange(false);
+    toastService.success(`Restored version from ${formatVersionTime(selected.created_at)}`);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Template History
+          </SheetTitle>
+          <SheetDescription>
+            Snapshots are taken each time your template is saved.
+          </SheetDescription>
+        </SheetHeader>
+
+        {source === "local" && (
+          <p className="flex items-center gap-1.5 rounded-md bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+            <HardDrive className="h-3.5 w-3.5 shrink-0" />
+            Showing history saved in this browser only.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex flex-1 items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No saved versions yet. Edits are saved automatically as you type.
+          </p>
+        ) : (
+          <>
+            <ul className="max-h-56 shrink-0 overflow-y-auto rounded-md border border-border divide-y divide-border">
+              {versions.map((version, index) => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(version.id)}
+                    className={cn(
+                      "flex w-full items-center justify-between gap-3 px-3 py-2 text-left text-sm transition-colors hover:bg-muted/50",
+                      version.id === selected?.id && "bg-muted"
+                    )}
+                  >
+                    <span className="font-medium text-foreground">
+                      {formatVersionTime(version.created_at)}
+                      {index === 0 && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">Latest</span>
+                      )}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {version.template_text.length.toLocaleString()} chars
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="inline-flex rounded-md border border-border p-0.5 text-xs">
+                {(
+                  [
+                    ["restore", "Compare with editor"],
+                    ["previous", "Compare with previous"],
+                  ] as const
+                ).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setCompareMode(mode)}
+                    className={cn(
+                      "rounded px-2.5 py-1 transition-colors",
+                      compareMode === mode
+                        ? "bg-primary text-primary-foreground"
+                        : "text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <span className="text-xs text-muted-foreground">
+                <span className="text-green-700 dark:text-green-400">+{stats.added}</span>
+                {" / "}
+                <span className="text-destructive">-{stats.removed}</span> words
+              </span>
+            </div>
+
+            <div className="min-h-0 flex-1 overflow-y-auto rounded-md border border-border bg-muted/20 px-4 py-3">
+              {stats.added === 0 && stats.removed === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {compareMode === "restore"
+                    ? "This version matches the editor."
+                    : "No word changes from the previous version."}
+                </p>
+              ) : (
+                <DiffView segments={segments} />
+              )}
+            </div>
+
+            <Button
+              type="button"
+              onClick={handleRestore}
+              disabled={!selected || selected.template_text === currentText}
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Restore this version
+            </Button>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  ChevronDown,
+  Star,
+  Sparkles,
+  Save,
+  FilePlus2,
+  Pencil,
+  Trash2,
+  Library,
+} from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useSavedTemplates } from "@/hooks/useSavedTemplates";
+import { api } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+import { toastService } from "@/lib/toast-service";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TemplateNameDialog } from "./template-name-dialog";
+
+interface TemplateLibraryProps {
+  // Saved template currently loaded in the editor (null for an unsaved draft)
+  activeTemplateId: string | null;
+  currentText: string;
+  onLoad: (text: string, savedTemplateId: string | null) => void;
+  disabled?: boolean;
+}
+
+type NameDialogMode = "save-as" | "rename" | null;
+
+export function TemplateLibrary({
+  activeTemplateId,
+  currentText,
+  onLoad,
+  disabled = false,
+}: TemplateLibraryProps) {
+  const { user, supabaseReady } = useAuth();
+  const {
+    savedTemplates,
+    isSaving,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+  } = useSavedTemplates();
+  const [nameDialogMode, setNameDialogMode] = useState<NameDialogMode>(null);
+
+  // AI-generated templates from the Template page
+  const { data: generatedTemplates = [] } = useQuery({
+    queryKey: queryKeys.templates.list(),
+    queryFn: ({ signal }) => api.template.getTemplates({ signal }),
+    enabled: !!user?.uid && supabaseReady,
+  });
+
+  const activeTemplate = savedTemplates.find((t) => t.id === activeTemplateId) ?? null;
+  const isDirty = !!activeTemplate && activeTemplate.template_text !== currentText;
+  const canSave = currentText.trim().length > 0;
+
+  // Mutation failures are toasted by useSavedTemplates, so rejections are swallowed here
+  const handleSave = async () => {
+    if (!activeTemplate) return;
+    try {
+      await updateTemplate(activeTemplate.id, { template_text: currentText });
+      toastService.success(`Saved "${activeTemplate.name}"`);
+    } catch {}
+  };
+
+  const handleSetDefault = async () => {
+    if (!activeTemplate) return;
+    try {
+      await updateTemplate(activeTemplate.id, { is_default: true });
+    } catch {}
+  };
+
+  const handleDelete = async () => {
+    if (!activeTemplate) return;
+    if (!confirm(`Delete "${activeTemplate.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteTemplate(activeTemplate.id);
+      // Keep the text in the editor; it just no longer belongs to a saved template
+      onLoad(currentText, null);
+    } catch {}
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-8 bg-card max-w-[16rem]"
+            disabled={disabled}
+          >
+            <Library className="mr-1.5 h-3.5 w-3.5 shrink-0" />
+            <span className="truncate">
+              {activeTemplate ? activeTemplate.name : "Unsaved draft"}
+              {isDirty && " •"}
+            </span>
+            <ChevronDown className="ml-1.5 h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-72 max-h-96 overflow-y-auto">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">Saved templates</DropdownMenuLabel>
+          {savedTemplates.length === 0 ? (
+            <DropdownMenuItem disabled className="text-xs">
+              No saved templates yet
+            </DropdownMenuItem>
+          ) : (
+            savedTemplates.map((saved) => (
+              <DropdownMenuItem
+                key={saved.id}
+                onSelect={() => onLoad(saved.template_text, saved.id)}
+                className="gap-2"
+              >
+                <span className="flex-1 truncate">{saved.name}</span>
+                {saved.is_default && (
+                  <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" aria-label="Default template" />
+                )}
+              </DropdownMenuItem>
+            ))
+          )}
+
+          {generatedTemplates.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs text-muted-foreground">AI-generated</DropdownMenuLabel>
+              {generatedTemplates.map((generated) => (
+                <DropdownMenuItem
+                  key={generated.id}
+                  onSelect={() => onLoad(generated.template_text, null)}
+                  className="gap-2"
+                >
+                  <Sparkles className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                  <span className="flex-1 truncate">
+                    {generated.user_instructions || "Generated template"}
+                  </span>
+                  <span className="text-[11px] text-muted-foreground shrink-0">
+                    {new Date(generated.created_at).toLocaleDateString()}
+                  </span>
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {activeTemplate && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8 text-muted-foreground"
+          onClick={handleSave}
+          disabled={disabled || !isDirty || !canSave || isSaving}
+        >
+          <Save className="mr-1.5 h-3.5 w-3.5" />
+          Save
+        </Button>
+      )}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-8 text-muted-foreground"
+        onClick={() => setNameDialogMode("save-as")}
+        disabled={disabled || !canSave}
+      >
+        <FilePlus2 className="mr-1.5 h-3.5 w-3.5" />
+        Save as new
+      </Button>
+
+      {activeTemplate && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 text-muted-foreground"
+              disabled={disabled}
+            >
+              Manage
+              <ChevronDown className="ml-1 h-3.5 w-3.5" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={() => setNameDialogMode("rename")}>
+              <Pencil className="mr-2 h-3.5 w-3.5" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              disabled={activeTemplate.is_default}
+              onSelect={handleSetDefault}
+            >
+              <Star className="mr-2 h-3.5 w-3.5" />
+              {activeTemplate.is_default ? "Default template" : "Set as default"}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              className="text-destructive focus:text-destructive"
+              onSelect={handleDelete}
+            >
+              <Trash2 className="mr-2 h-3.5 w-3.5" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {nameDialogMode === "save-as" && (
+        <TemplateNameDialog
+          open
+          onOpenChange={(open) => !open && setNameDialogMode(null)}
+          title="Save as new template"
+          description="Save the current editor contents to your template library."
+          submitLabel="Save template"
+          onSubmit={async (name) => {
+            const created = await createTemplate({
+              name,
+              template_text: currentText,
+              is_default: savedTemplates.length === 0,
+            });
+            onLoad(created.template_text, created.id);
+          }}
+        />
+      )}
+      {nameDialogMode === "rename" && activeTemplate && (
+        <TemplateNameDialog
+          open
+          onOpenChange={(open) => !open && setNameDialogMode(null)}
+          title="Rename template"
+          description="Choose a new name for this template."
+          submitLabel="Rename"
+          initialName={activeTemplate.name}
+          onSubmit={async (name) => {
+            await updateTemplate(activeTemplate.id, { name });
+          }}
+        />
+      )}
+    </div>
+  );
+}
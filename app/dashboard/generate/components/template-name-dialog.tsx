@@ -0,0 +1,99 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SavedTemplateNameSchema } from "@/lib/schemas";
+
+interface TemplateNameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  submitLabel: string;
+  initialName?: string;
+  onSubmit: (name: string) => Promise<void>;
+}
+
+export function TemplateNameDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  submitLabel,
+  initialName = "",
+  onSubmit,
+}: TemplateNameDialogProps) {
+  const [name, setName] = useState(initialName);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    const result = SavedTemplateNameSchema.safeParse(name);
+    if (!result.success) {
+      setError(result.error.issues[0]?.message ?? "Invalid name");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit(result.data);
+      onOpenChange(false);
+    } catch {
+      // Failure toast is shown by the mutation
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              autoFocus
+              placeholder="e.g. ML labs - short intro"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              disabled={submitting}
+            />
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Eye } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { renderTemplatePreview } from "@/lib/template-engine";
+import type { BatchItem } from "@/lib/schemas";
+
+interface TemplatePreviewProps {
+  template: string;
+  items: BatchItem[];
+}
+
+const SAMPLE_ITEM: BatchItem = {
+  recipient_name: "Dr. Jane Smith",
+  recipient_interest: "Natural Language Processing",
+};
+
+export function TemplatePreview({ template, items }: TemplatePreviewProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const sampleItems = items.length > 0 ? items : [SAMPLE_ITEM];
+  const item = sampleItems[Math.min(selectedIndex, sampleItems.length - 1)];
+
+  const segments = useMemo(() => renderTemplatePreview(template, item), [template, item]);
+
+  if (!template.trim()) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card">
+      <div className="flex items-center justify-between gap-3 px-4 py-2.5 border-b border-border bg-muted/30">
+        <span className="flex items-center gap-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+          <Eye className="h-3.5 w-3.5" />
+          Preview
+        </span>
+        {items.length > 1 ? (
+          <select
+            aria-label="Preview recipient"
+            className="h-7 max-w-[60%] rounded-md border border-input bg-background px-2 text-xs"
+            value={Math.min(selectedIndex, sampleItems.length - 1)}
+            onChange={(e) => setSelectedIndex(Number(e.target.value))}
+          >
+            {items.map((previewItem, index) => (
+              <option key={index} value={index}>
+                {previewItem.recipient_name}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="text-xs text-muted-foreground truncate">
+            {items.length === 0 ? "Sample recipient" : item.recipient_name}
+          </span>
+        )}
+      </div>
+      <pre className="px-4 py-3 max-h-80 overflow-y-auto whitespace-pre-wrap font-sans text-sm leading-relaxed text-muted-foreground">
+        {segments.map((segment, index) =>
+          segment.kind === "text" ? (
+            <span key={index}>{segment.text}</span>
+          ) : (
+            <span
+              key={index}
+              className={cn(
+                "rounded-sm px-0.5",
+                segment.kind === "filled"
+                  ? "bg-primary/10 text-foreground"
+                  : "bg-destructive/15 text-destructive"
+              )}
+            >
+              {segment.text}
+            </span>
+          )
+        )}
+      </pre>
+    </div>
+  );
+}
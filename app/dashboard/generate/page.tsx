@@ -1,31 +1,33 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import Link from "next/link";
 import { useAuth } from "@/hooks/use-auth";
-import { useQueueManager } from "@/hooks/useQueueManager";
+import { useQueueManager, type BatchSubmitOutcome } from "@/hooks/useQueueManager";
+import { useSavedTemplates } from "@/hooks/useSavedTemplates";
+import { useTemplateHistory } from "@/hooks/useTemplateHistory";
+import { useRateLimitCountdown } from "@/hooks/useRateLimitCountdown";
 import {
-  useRecipientName,
-  useSetRecipientName,
-  useRecipientInterest,
-  useSetRecipientInterest,
+  useBatchDraft,
+  useSetBatchDraft,
+  useResetForm,
   useHasHydrated,
 } from "@/stores/ui-store";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { api } from "@/lib/api";
 import { queryKeys } from "@/lib/query-keys";
-import { TemplateUpdateSchema } from "@/lib/schemas";
+import { TemplateUpdateSchema, type BatchItem } from "@/lib/schemas";
+import { createDraftRow, hasMergeFields, validateDraftRows, MAX_BATCH_SIZE } from "@/lib/batch-draft";
+import { analyzeTemplate, TEMPLATE_VARIABLES } from "@/lib/template-engine";
 import { toastService } from "@/lib/toast-service";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import Navbar from "@/components/Navbar";
 import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { FadeIn } from "@/components/motion/FadeIn";
 import { SlideIn } from "@/components/motion/SlideIn";
 import { ScaleIn } from "@/components/motion/ScaleIn";
-import { Loader2, Sparkles, Info } from "lucide-react";
+import { Loader2, Sparkles, Info, History, Clock } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import {
   Tooltip,
@@ -33,6 +35,12 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { RecipientImportDialog } from "./components/recipient-import-dialog";
+import { BatchGrid } from "./components/batch-grid";
+import { TemplateEditor } from "./components/template-editor";
+import { TemplatePreview } from "./components/template-preview";
+import { TemplateLibrary } from "./components/template-library";
+import { TemplateHistoryDrawer } from "./components/template-history-drawer";
 
 export default function GenerateEmailsPage() {
   const { user, supabaseReady } = useAuth();
@@ -41,17 +49,21 @@ export default function GenerateEmailsPage() {
   // Wait for Zustand stores to hydrate
   const uiHydrated = useHasHydrated();
 
-  // Form state from Zustand (auto-persisted to localStorage)
-  const names = useRecipientName();
-  const setNames = useSetRecipientName();
-  const interest = useRecipientInterest();
-  const setInterest = useSetRecipientInterest();
+  // Recipient grid draft from Zustand (auto-persisted to localStorage)
+  const draftRows = useBatchDraft();
+  const setDraftRows = useSetBatchDraft();
+  const resetForm = useResetForm();
 
   // Local UI state (not persisted in store)
   const [template, setTemplate] = useState("");
   const [loading, setLoading] = useState(false);
-  const [showMessage, setShowMessage] = useState(false);
+  // Seconds left on a Retry-After pause for the queue endpoints
+  const retryIn = useRateLimitCountdown("/api/queue/batch");
+  const [submitOutcome, setSubmitOutcome] = useState<BatchSubmitOutcome | null>(null);
   const [templateLoaded, setTemplateLoaded] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [activeTemplateId, setActiveTemplateId] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   // Pulse animation for Template Guide on page load
   const [showPulse, setShowPulse] = useState(true);
@@ -68,18 +80,38 @@ export default function GenerateEmailsPage() {
     staleTime: 30000,
   });
 
-  // Load template from database
+  const { defaultTemplate, isLoading: savedTemplatesLoading } = useSavedTemplates();
+
+  // Last template text sent to the server, so unchanged text isn't saved again
+  const lastSavedTemplateRef = useRef<string | null>(null);
+
+  // Load template from database, falling back to the default library template
   useEffect(() => {
-    if (userProfile?.email_template !== undefined) {
+    if (userProfile?.email_template === undefined || savedTemplatesLoading || templateLoaded) {
+      return;
+    }
+
+    lastSavedTemplateRef.current = userProfile.email_template || "";
+    if (!userProfile.email_template && defaultTemplate) {
+      setTemplate(defaultTemplate.template_text);
+      setActiveTemplateId(defaultTemplate.id);
+    } else {
       setTemplate(userProfile.email_template || "");
-      setTemplateLoaded(true);
     }
-  }, [userProfile?.email_template]);
+    setTemplateLoaded(true);
+  }, [userProfile?.email_template, savedTemplatesLoading, defaultTemplate, templateLoaded]);
+
+  const { recordSnapshot, refreshHistory } = useTemplateHistory(false);
 
   // Mutation for saving template
-  const updateTemplate = useMutation({
+  const { mutate: saveTemplate } = useMutation({
     mutationFn: (template: string) => api.user.updateTemplate(template),
+    onSuccess: () => {
+      refreshHistory();
+    },
     onError: (error) => {
+      // Let the next edit retry the save
+      lastSavedTemplateRef.current = null;
       console.error("Failed to save template:", error);
     }
   });
@@ -118,7 +150,14 @@ export default function GenerateEmailsPage() {
         // Clear validation error state on successful validation
         lastValidationErrorRef.current = null;
 
-        updateTemplate.mutate(template);
+        if (template === lastSavedTemplateRef.current) {
+          return;
+        }
+        lastSavedTemplateRef.current = template;
+
+        // Local snapshot first so the text is recoverable even if the save fails
+        recordSnapshot(template);
+        saveTemplate(template);
       }, 2000);
     }
 
@@ -128,7 +167,9 @@ export default function GenerateEmailsPage() {
         clearTimeout(debounceTimerRef.current);
       }
     };
-  }, [template, supabaseReady, uiHydrated, templateLoaded, updateTemplate]);
+  }, [template, supabaseReady, uiHydrated, templateLoaded, saveTemplate, recordSnapshot]);
+
+  const templateAnalysis = useMemo(() => analyzeTemplate(template), [template]);
 
   // Wait for stores to hydrate before rendering
   if (!uiHydrated) {
@@ -144,9 +185,25 @@ export default function GenerateEmailsPage() {
     );
   }
 
+  const draftValidation = validateDraftRows(draftRows);
+
   const handleSubmit = async () => {
-    if (!names.trim() || !interest.trim() || !template.trim()) {
-      alert("Please fill in all fields");
+    if (draftValidation.items.length === 0 || !template.trim()) {
+      alert("Please add at least one recipient and an email template");
+      return;
+    }
+
+    if (templateAnalysis.hasErrors) {
+      alert("Please fix the highlighted template placeholders before generating");
+      return;
+    }
+
+    if (!draftValidation.isValid) {
+      alert(
+        draftValidation.items.length > MAX_BATCH_SIZE
+          ? `A batch can contain at most ${MAX_BATCH_SIZE} recipients`
+          : "Please fix the highlighted recipients before generating"
+      );
       return;
     }
 
@@ -156,20 +213,14 @@ export default function GenerateEmailsPage() {
     }
 
     setLoading(true);
-    setShowMessage(false);
+    setSubmitOutcome(null);
 
     try {
-      const professorNames = names.split(",").map(name => name.trim()).filter(Boolean);
-      const itemsToQueue = professorNames.map(name => ({
-        name: name,
-        interest: interest,
-      }));
-
-      await submitBatch(itemsToQueue, template);
+      const outcome = await submitBatch(draftValidation.items, template);
 
-      // Clear the form fields (template is kept for convenience)
-      setNames("");
-      setShowMessage(true);
+      // Clear the grid (template is kept for convenience); an outbox batch is safe to clear too
+      resetForm();
+      setSubmitOutcome(outcome);
     } catch (error) {
       console.error("Failed to submit batch:", error);
     } finally {
@@ -177,6 +228,14 @@ export default function GenerateEmailsPage() {
     }
   };
 
+  // Imported rows replace blank grid rows and append after existing ones
+  const handleImport = (items: BatchItem[]) => {
+    const filledRows = draftRows.filter(
+      (row) => row.recipient_name.trim() || row.recipient_interest.trim() || hasMergeFields(row)
+    );
+    setDraftRows([...filledRows, ...items.map((item) => createDraftRow(item))]);
+  };
+
   return (
     <ProtectedRoute>
       <div className="min-h-screen bg-background pb-12">
@@ -211,15 +270,15 @@ export default function GenerateEmailsPage() {
                       </p>
 
                       <div className="space-y-3">
-                        <div className="text-xs font-mono bg-card/80 p-2 rounded text-foreground border border-border">
-                          {'{{professor_name}}'}
-                        </div>
-                        <div className="text-xs font-mono bg-card/80 p-2 rounded text-foreground border border-border">
-                          {'{{research_paper}}'}
-                        </div>
-                        <div className="text-xs font-mono bg-card/80 p-2 rounded text-foreground border border-border">
-                          {'{{university_name}}'}
-                        </div>
+                        {TEMPLATE_VARIABLES.map((variable) => (
+                          <div
+                            key={variable.name}
+                            title={variable.description}
+                            className="text-xs font-mono bg-card/80 p-2 rounded text-foreground border border-border"
+                          >
+                            {`{{${variable.name}}}`}
+                          </div>
+                        ))}
                       </div>
                     </CardContent>
                   </Card>
@@ -243,7 +302,7 @@ export default function GenerateEmailsPage() {
                   <div className="p-6 md:p-8 space-y-6">
                     <div className="space-y-2">
                       <div className="flex items-center gap-2">
-                        <Label htmlFor="names" className="text-foreground font-medium">
+                        <Label className="text-foreground font-medium">
                           Recipients
                         </Label>
                         <TooltipProvider delayDuration={50}>
@@ -252,50 +311,56 @@ export default function GenerateEmailsPage() {
                               <Info className="hidden sm:block h-4 w-4 text-muted-foreground cursor-help" />
                             </TooltipTrigger>
                             <TooltipContent side="right" className="max-w-xs">
-                              <p>Queue up to 100 recipients at once using comma-separated names.</p>
+                              <p>Queue up to {MAX_BATCH_SIZE} recipients at once. Paste rows copied from a spreadsheet (name, then interest) or import a CSV/XLSX file.</p>
                             </TooltipContent>
                           </Tooltip>
                         </TooltipProvider>
                       </div>
-                      <Input
-                        id="names"
-                        placeholder="John Smith, Sarah Jones, Michael Williams..."
-                        className="w-full bg-muted/30"
-                        value={names}
-                        onChange={(e) => setNames(e.target.value)}
-                      />
-                      {/*<p className="text-xs text-muted-foreground">Comma separated names</p>*/}
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="interest" className="text-foreground font-medium">
-                        Professor's Research Field
-                      </Label>
-                      <Input
-                        id="interest"
-                        placeholder="e.g. Natural Language Processing"
-                        className="w-full bg-muted/30"
-                        value={interest}
-                        onChange={(e) => setInterest(e.target.value)}
-                      />
+                      <BatchGrid onImportClick={() => setImportOpen(true)} disabled={loading} />
                     </div>
 
                     <div className="space-y-2">
-                      <Label htmlFor="template" className="text-foreground font-medium">
-                        Email Template
-                      </Label>
-                      <Textarea
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <Label htmlFor="template" className="text-foreground font-medium">
+                          Email Template
+                        </Label>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <TemplateLibrary
+                            activeTemplateId={activeTemplateId}
+                            currentText={template}
+                            onLoad={(text, savedTemplateId) => {
+                              setTemplate(text);
+                              setActiveTemplateId(savedTemplateId);
+                            }}
+                            disabled={profileLoading}
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 text-muted-foreground"
+                            onClick={() => setHistoryOpen(true)}
+                            disabled={profileLoading}
+                          >
+                            <History className="mr-1.5 h-3.5 w-3.5" />
+                            History
+                          </Button>
+                        </div>
+                      </div>
+                      <TemplateEditor
                         id="template"
                         placeholder="Dear {{professor_name}}, ..."
-                        className="w-full bg-muted/30 min-h-[450px] font-mono text-xs leading-relaxed"
                         value={template}
-                        onChange={(e) => setTemplate(e.target.value)}
+                        onChange={setTemplate}
+                        analysis={templateAnalysis}
                         disabled={profileLoading}
                       />
                       {profileLoading && (
                         <p className="text-xs text-muted-foreground mt-1">Loading saved template...</p>
                       )}
                     </div>
+
+                    <TemplatePreview template={template} items={draftValidation.items} />
                   </div>
 
                   <div className="p-6 border-t border-border bg-muted/30 flex flex-col items-center gap-4">
@@ -303,12 +368,17 @@ export default function GenerateEmailsPage() {
                       className="w-full sm:w-auto min-w-[200px] shadow-lg shadow-primary/5 hover:shadow-primary/10 transition-all"
                       size="lg"
                       onClick={handleSubmit}
-                      disabled={loading}
+                      disabled={loading || retryIn > 0}
                     >
                       {loading ? (
                         <>
                           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Processing Queue...
+                          {retryIn > 0 ? `Rate limited, retrying in ${retryIn}s...` : "Processing Queue..."}
+                        </>
+                      ) : retryIn > 0 ? (
+                        <>
+                          <Clock className="mr-2 h-4 w-4" />
+                          Try again in {retryIn}s
                         </>
                       ) : (
                         <>
@@ -318,7 +388,18 @@ export default function GenerateEmailsPage() {
                       )}
                     </Button>
 
-                    {showMessage && (
+                    {submitOutcome === "outbox" && (
+                      <FadeIn>
+                        <p className="text-sm text-center bg-amber-500/10 text-amber-700 dark:text-amber-400 px-4 py-2 rounded-full border border-amber-500/20">
+                          Couldn&apos;t reach the server. Your batch is saved and will be sent when you&apos;re back online. Track it in the queue on the{" "}
+                          <Link href="/dashboard" className="font-semibold hover:underline">
+                            dashboard
+                          </Link>
+                        </p>
+                      </FadeIn>
+                    )}
+
+                    {submitOutcome === "queued" && (
                       <FadeIn>
                         <p className="text-sm text-center bg-green-500/10 text-green-600 dark:text-green-400 px-4 py-2 rounded-full border border-green-500/20">
                           Added to queue! Check status on{" "}
@@ -334,6 +415,18 @@ export default function GenerateEmailsPage() {
             </div>
           </div>
         </main>
+
+        <RecipientImportDialog
+          open={importOpen}
+          onOpenChange={setImportOpen}
+          onImport={handleImport}
+        />
+        <TemplateHistoryDrawer
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          currentText={template}
+          onRestore={setTemplate}
+        />
       </div>
     </ProtectedRoute>
   );
@@ -1,6 +1,10 @@
 'use client';
 
 import { useQueueManager } from '@/hooks/useQueueManager';
+import { useQueueRealtimeSync } from '@/hooks/useQueueRealtimeSync';
+import { useQueueProgressStream } from '@/hooks/useQueueProgressStream';
+import { useBatchNotifications } from '@/hooks/useBatchNotifications';
+import { useBatchOutboxSync } from '@/hooks/useBatchOutbox';
 import { UserInitError } from '@/components/UserInitError';
 import { WelcomeScreen } from '@/components/WelcomeScreen';
 import { SHOW_SHUTDOWN_NOTICE } from '@/config/api';
@@ -19,7 +23,11 @@ export default function DashboardLayout({
     redirect('/');
   }
 
-  useQueueManager();
+  const { queueItems, pendingCount, processingCount } = useQueueManager();
+  useQueueRealtimeSync();
+  useQueueProgressStream({ enabled: pendingCount + processingCount > 0 });
+  useBatchNotifications({ queueItems });
+  useBatchOutboxSync();
 
   const { user, supabaseReady } = useAuth();
 
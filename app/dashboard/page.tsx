@@ -1,9 +1,10 @@
 "use client";
 
-import { useState } from "react";
+import { Suspense, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { useInfiniteEmailHistory } from "@/hooks/useInfiniteEmailHistory";
+import { useEmailHistoryFilters } from "@/hooks/useEmailHistoryFilters";
 import { api } from "@/lib/api";
 import { queryKeys } from "@/lib/query-keys";
 import {
@@ -17,30 +18,84 @@ import ProtectedRoute from "@/components/ProtectedRoute";
 import Navbar from "@/components/Navbar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Copy, Check, Download, Loader2, ChevronDown, Trash2 } from "lucide-react";
+import {
+  Copy,
+  Check,
+  Download,
+  Loader2,
+  ChevronDown,
+  Trash2,
+  Maximize2,
+  RefreshCw,
+  ArchiveRestore,
+} from "lucide-react";
 import { QueueStatus } from "@/components/QueueStatus";
 import { useEmailExport } from "@/hooks/useEmailExport";
 import { useEmailDiscard } from "@/hooks/useEmailDiscard";
+import { useEmailTrash } from "@/hooks/useEmailTrash";
+import { useEmailSelection } from "@/hooks/useEmailSelection";
+import type { EmailResponse } from "@/lib/schemas";
+import { toastService } from "@/lib/toast-service";
+import { useQueueManager } from "@/hooks/useQueueManager";
+import { getRegeneratedFrom, groupEmailVersions } from "@/lib/email-metadata";
+import { hasActiveEmailFilters } from "@/lib/email-filters";
+import { isQueued } from "@/lib/queue-cache";
 import { FadeIn } from "@/components/motion/FadeIn";
 import { ScaleIn } from "@/components/motion/ScaleIn";
 import { SlideIn } from "@/components/motion/SlideIn";
+import { EmailDetailSheet } from "./components/email-detail-sheet";
+import { RegenerateDialog } from "./components/regenerate-dialog";
+import { EmailHistoryToolbar } from "./components/email-history-toolbar";
+import { TrashList } from "./components/trash-list";
+import { BulkActionBar } from "./components/bulk-action-bar";
+import { ExportDialog } from "./components/export-dialog";
+import { SendEmailMenu } from "./components/send-email-menu";
+
+// "Select all matching" stops loading pages at this many emails
+const SELECT_ALL_LIMIT = 500;
+// Bulk discard/restore asks for confirmation above this many emails
+const BULK_CONFIRM_THRESHOLD = 50;
+
+// Plain-text form used when copying several emails at once
+function formatEmailForClipboard(email: EmailResponse): string {
+  const header = [`To: ${email.recipient_name}`, email.subject && `Subject: ${email.subject}`]
+    .filter(Boolean)
+    .join("\n");
+  return `${header}\n\n${email.email_message}`;
+}
 
+// useSearchParams (filter sync) requires a Suspense boundary
 export default function DashboardPage() {
+  return (
+    <Suspense>
+      <DashboardContent />
+    </Suspense>
+  );
+}
+
+function DashboardContent() {
   const { user, loading, supabaseReady } = useAuth();
 
   // Wait for Zustand stores to hydrate
   const uiHydrated = useHasHydrated();
 
+  // Search, filters and sort (synced to the URL)
+  const { filters, updateFilters, clearFilters } = useEmailHistoryFilters();
+  const filtersActive = hasActiveEmailFilters(filters);
+  const isTrashView = filters.displayed === false;
+
   // Email history with React Query infinite pagination
   const {
     data,
     fetchNextPage,
     hasNextPage,
+    isFetching,
     isFetchingNextPage,
-  } = useInfiniteEmailHistory();
+  } = useInfiniteEmailHistory(filters);
 
   // Flatten all pages into a single array
   const emailHistory = data?.pages.flatMap(page => page) ?? [];
+  const templateTypes = [...new Set(emailHistory.map((email) => email.template_type))];
 
   // Fetch user profile for generation_count
   const { data: userProfile } = useQuery({
@@ -51,21 +106,127 @@ export default function DashboardPage() {
   });
 
   // Email export functionality
-  const { isExporting, error, exportEmails } = useEmailExport();
+  const {
+    isExporting,
+    progress: exportProgress,
+    error,
+    exportEmails,
+    resumeExport,
+    cancelExport,
+    exportSelectedEmails,
+  } = useEmailExport();
+  const [exportScope, setExportScope] = useState<"all" | "selected" | null>(null);
 
   // Email discard functionality
   const { mutate: discardEmail } = useEmailDiscard({
     onSuccess: (data) => {
-      console.log(`Email ${data.displayed ? 'restored' : 'discarded'}`);
+      if (data.displayed) {
+        toastService.success("Email restored");
+        return;
+      }
+      toastService.success("Email moved to trash", {
+        action: {
+          label: "Undo",
+          onClick: () => discardEmail({ emailId: data.id, displayed: true }),
+        },
+      });
     },
     onError: (error) => {
       console.error('Failed to discard email:', error);
     },
   });
 
+  // Bulk discard, restore and permanent delete
+  const { discardEmails, restoreEmails, deleteEmails, isDiscarding, isRestoring, isDeleting } =
+    useEmailTrash();
+  const bulkBusy = isDiscarding || isRestoring || isDeleting;
+
+  // Multi-select across loaded emails (selections drop out as emails leave the list)
+  const selection = useEmailSelection(emailHistory.map((email) => email.id));
+  const selectedEmails = emailHistory.filter((email) => selection.isSelected(email.id));
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+
+  // Load the remaining pages for the current filters (up to SELECT_ALL_LIMIT), then select them
+  const handleSelectAllMatching = async () => {
+    setIsSelectingAll(true);
+    try {
+      const loadedCount = (result: Awaited<ReturnType<typeof fetchNextPage>>) =>
+        result.data?.pages.reduce((count, page) => count + page.length, 0) ?? 0;
+
+      let result = await fetchNextPage();
+      while (result.hasNextPage && !result.isError && loadedCount(result) < SELECT_ALL_LIMIT) {
+        result = await fetchNextPage();
+      }
+
+      const emailIds = result.data?.pages.flatMap((page) => page).map((email) => email.id);
+      selection.selectAll(emailIds?.slice(0, SELECT_ALL_LIMIT));
+      if ((emailIds?.length ?? 0) > SELECT_ALL_LIMIT || result.hasNextPage) {
+        toastService.info(`Selected the first ${SELECT_ALL_LIMIT} matching emails`);
+      }
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  const confirmLargeBulkAction = (action: string, count: number) =>
+    count <= BULK_CONFIRM_THRESHOLD || confirm(`${action} ${count} emails?`);
+
+  const handleBulkDiscard = () => {
+    if (!confirmLargeBulkAction("Move to trash", selection.selectedIds.length)) return;
+    discardEmails(selection.selectedIds);
+    selection.clear();
+  };
+
+  const handleBulkRestore = (emailIds: string[]) => {
+    if (!confirmLargeBulkAction("Restore", emailIds.length)) return;
+    restoreEmails(emailIds);
+    selection.clear();
+  };
+
+  const handleBulkDelete = (emailIds: string[]) => {
+    const label = emailIds.length === 1 ? "this email" : `${emailIds.length} emails`;
+    if (!confirm(`Permanently delete ${label}? This cannot be undone.`)) return;
+    deleteEmails(emailIds);
+    selection.clear();
+  };
+
+  const handleCopySelected = async () => {
+    try {
+      await navigator.clipboard.writeText(
+        selectedEmails.map(formatEmailForClipboard).join("\n\n---\n\n")
+      );
+      toastService.success(`Copied ${selectedEmails.length} emails`);
+    } catch {
+      toastService.errorMessage("Couldn't copy to clipboard");
+    }
+  };
+
   // Track which email is being discarded
   const [discardingEmailId, setDiscardingEmailId] = useState<string | null>(null);
 
+  // Email open in the detail sheet (looked up from the cache so edits stay in sync)
+  const [detailEmailId, setDetailEmailId] = useState<string | null>(null);
+  const listedDetailEmail = emailHistory.find((email) => email.id === detailEmailId) ?? null;
+  // Emails opened from the queue panel may not be on a loaded page yet
+  const { data: fetchedDetailEmail } = useQuery({
+    queryKey: queryKeys.emails.detail(detailEmailId ?? ""),
+    queryFn: ({ signal }) => api.email.getEmail(detailEmailId!, { signal }),
+    enabled: !!detailEmailId && !listedDetailEmail,
+  });
+  const detailEmail =
+    listedDetailEmail ?? (fetchedDetailEmail?.id === detailEmailId ? fetchedDetailEmail : null);
+
+  // Regeneration: originals grouped with their new versions, plus in-flight requests
+  const [regenerateEmailId, setRegenerateEmailId] = useState<string | null>(null);
+  const regenerateTarget = emailHistory.find((email) => email.id === regenerateEmailId) ?? null;
+  const emailVersions = groupEmailVersions(emailHistory);
+  const { queueItems } = useQueueManager();
+  const regeneratingEmailIds = new Set(
+    queueItems
+      .filter((item) => item.source_email_id && (isQueued(item) || item.status === "processing"))
+      .map((item) => item.source_email_id)
+  );
+
   // UI state from Zustand
   const hoveredEmailId = useHoveredEmailId();
   const setHoveredEmailId = useSetHoveredEmailId();
@@ -167,7 +328,7 @@ export default function DashboardPage() {
                 </ScaleIn>
 
                 <ScaleIn delay={0.3}>
-                  <QueueStatus />
+                  <QueueStatus onOpenEmail={setDetailEmailId} />
                 </ScaleIn>
               </div>
             </FadeIn>
@@ -175,28 +336,120 @@ export default function DashboardPage() {
             {/* Email History Section */}
             <SlideIn delay={0.4} className="space-y-6">
               <div className="flex items-center justify-between">
-                <h2 className="text-xl font-semibold text-foreground">Email History</h2>
-                <Button
-                  onClick={exportEmails}
-                  disabled={isExporting || emailHistory.length === 0}
-                  variant="outline"
-                  size="sm"
-                  className="bg-card"
-                >
-                  {isExporting ? (
-                    <>
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      Exporting...
-                    </>
-                  ) : (
-                    <>
-                      <Download className="h-4 w-4 mr-2" />
-                      Export Excel
-                    </>
-                  )}
-                </Button>
+                <div className="flex items-center gap-4">
+                  <h2 className="flex items-center gap-2 text-xl font-semibold text-foreground">
+                    Email History
+                    {isFetching && !isFetchingNextPage && (
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    )}
+                  </h2>
+                  <div className="inline-flex rounded-md border border-border bg-card p-0.5 text-xs">
+                    {(
+                      [
+                        [false, "Emails"],
+                        [true, "Trash"],
+                      ] as const
+                    ).map(([trash, label]) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => updateFilters({ displayed: trash ? false : undefined })}
+                        className={`rounded px-2.5 py-1 transition-colors ${
+                          isTrashView === trash
+                            ? 'bg-primary text-primary-foreground'
+                            : 'text-muted-foreground hover:text-foreground'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {!isTrashView && (
+                  <Button
+                    onClick={() => setExportScope("all")}
+                    disabled={isExporting || emailHistory.length === 0}
+                    variant="outline"
+                    size="sm"
+                    className="bg-card"
+                  >
+                    {isExporting ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Exporting...
+                      </>
+                    ) : (
+                      <>
+                        <Download className="h-4 w-4 mr-2" />
+                        Export
+                      </>
+                    )}
+                  </Button>
+                )}
               </div>
 
+              <EmailHistoryToolbar
+                filters={filters}
+                onChange={updateFilters}
+                onClear={clearFilters}
+                templateTypes={templateTypes}
+              />
+
+              <BulkActionBar
+                selectedCount={selection.selectedIds.length}
+                allLoadedSelected={selection.allSelected}
+                hasMore={!!hasNextPage}
+                onSelectAllMatching={handleSelectAllMatching}
+                isSelectingAll={isSelectingAll}
+                onClear={selection.clear}
+              >
+                {isTrashView ? (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-8 bg-card"
+                      onClick={() => handleBulkRestore(selection.selectedIds)}
+                      disabled={bulkBusy}
+                    >
+                      <ArchiveRestore className="mr-1.5 h-3.5 w-3.5" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-8 bg-card hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
+                      onClick={() => handleBulkDelete(selection.selectedIds)}
+                      disabled={bulkBusy}
+                    >
+                      <Trash2 className="mr-1.5 h-3.5 w-3.5" />
+                      Delete forever
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button variant="outline" size="sm" className="h-8 bg-card" onClick={handleCopySelected}>
+                      <Copy className="mr-1.5 h-3.5 w-3.5" />
+                      Copy
+                    </Button>
+                    <Button variant="outline" size="sm" className="h-8 bg-card" onClick={() => setExportScope("selected")}>
+                      <Download className="mr-1.5 h-3.5 w-3.5" />
+                      Export
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-8 bg-card hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
+                      onClick={handleBulkDiscard}
+                      disabled={bulkBusy}
+                    >
+                      <Trash2 className="mr-1.5 h-3.5 w-3.5" />
+                      Discard
+                    </Button>
+                  </>
+                )}
+              </BulkActionBar>
+
               {/* Error display */}
               {error && (
                 <div className="mb-4 p-3 bg-destructive/10 border border-destructive/20 text-destructive rounded-md text-sm">
@@ -206,123 +459,216 @@ export default function DashboardPage() {
 
               <Card className="border-border/50 bg-card shadow-sm overflow-hidden">
                 <CardContent className="p-0">
-                  <div className="overflow-x-auto">
-                    <table className="w-full">
-                      <thead className="bg-muted/50 border-b border-border">
-                        <tr>
-                          <th className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider w-[17%]">
-                            Recipient
-                          </th>
-                          <th className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider w-[12%]">
-                            Interest
-                          </th>
-                          <th className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider w-[10%]">
-                            Status
-                          </th>
-                          <th className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider w-[61%]">
-                            Content
-                          </th>
-                        </tr>
-                      </thead>
-                      <tbody className="bg-card divide-y divide-border/50">
-                        {emailHistory.length > 0 ? (
-                          emailHistory.map((email) => (
-                            <tr
-                              key={email.id}
-                              className="hover:bg-muted/50 transition-colors duration-150"
-                              onMouseEnter={() => setHoveredEmailId(email.id)}
-                              onMouseLeave={() => setHoveredEmailId(null)}
-                            >
-                              <td className="px-6 py-4 text-sm font-medium text-foreground align-top">
-                                <div className="max-w-xs wrap-break-word">
-                                  {email.recipient_name}
-                                </div>
-                              </td>
-                              <td className="px-6 py-4 text-sm text-muted-foreground align-top">
-                                <div className="max-w-xs wrap-break-word">
-                                  {email.recipient_interest}
-                                </div>
-                              </td>
-                              <td className="px-6 py-4 whitespace-nowrap text-sm align-top">
-                                <span className={`px-2.5 py-0.5 text-xs font-medium rounded-full border ${
-                                  email.is_confident
-                                    ? 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20'
-                                    : 'bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20'
-                                }`}>
-                                  {email.is_confident ? 'Confident' : 'Draft'}
-                                </span>
-                              </td>
-                              <td className="px-6 py-4 text-sm text-muted-foreground relative group">
-                                <div className="max-w-full">
-                                  <div>
-                                    <pre className="whitespace-pre-wrap font-sans text-sm leading-relaxed text-muted-foreground">
-                                      {email.email_message || "No content"}
-                                    </pre>
+                  {isTrashView ? (
+                    <TrashList
+                      emails={emailHistory}
+                      selection={selection}
+                      onRestore={handleBulkRestore}
+                      onDelete={handleBulkDelete}
+                      busy={bulkBusy}
+                    />
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-muted/50 border-b border-border">
+                          <tr>
+                            <th className="w-10 pl-6 pr-0 py-4 text-left">
+                              <input
+                                type="checkbox"
+                                aria-label="Select all loaded emails"
+                                checked={selection.allSelected}
+                                ref={(input) => {
+                                  if (input) input.indeterminate = selection.someSelected;
+                                }}
+                                onChange={() =>
+                                  selection.allSelected ? selection.clear() : selection.selectAll()
+                                }
+                                disabled={emailHistory.length === 0}
+                              />
+                            </th>
+                            <th className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider w-[17%]">
+                              Recipient
+                            </th>
+                            <th className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider w-[12%]">
+                              Interest
+                            </th>
+                            <th className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider w-[10%]">
+                              Status
+                            </th>
+                            <th className="px-6 py-4 text-left text-xs font-semibold text-muted-foreground uppercase tracking-wider w-[61%]">
+                              Content
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-card divide-y divide-border/50">
+                          {emailHistory.length > 0 ? (
+                            emailHistory.map((email) => (
+                              <tr
+                                key={email.id}
+                                className={`hover:bg-muted/50 transition-colors duration-150 ${
+                                  selection.isSelected(email.id) ? 'bg-primary/5' : ''
+                                }`}
+                                onMouseEnter={() => setHoveredEmailId(email.id)}
+                                onMouseLeave={() => setHoveredEmailId(null)}
+                              >
+                                <td className="pl-6 pr-0 py-4 align-top">
+                                  <input
+                                    type="checkbox"
+                                    aria-label={`Select email to ${email.recipient_name}`}
+                                    className="mt-0.5"
+                                    checked={selection.isSelected(email.id)}
+                                    readOnly
+                                    onClick={(e) => selection.toggle(email.id, e.shiftKey)}
+                                  />
+                                </td>
+                                <td className="px-6 py-4 text-sm font-medium text-foreground align-top">
+                                  <div className="max-w-xs wrap-break-word">
+                                    {email.recipient_name}
                                   </div>
-                                  <div className={`absolute top-2 right-4 flex gap-2 transition-opacity duration-200 ${hoveredEmailId === email.id ? 'opacity-100' : 'opacity-0'}`}>
-                                    {/* Discard Button */}
-                                    <Button
-                                      variant="outline"
-                                      size="sm"
-                                      className="h-8 bg-card shadow-xs hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
-                                      onClick={() => {
-                                        setDiscardingEmailId(email.id);
-                                        discardEmail(
-                                          { emailId: email.id, displayed: false },
-                                          {
-                                            onSettled: () => setDiscardingEmailId(null),
-                                          }
-                                        );
-                                      }}
-                                      disabled={discardingEmailId === email.id}
-                                    >
-                                      {discardingEmailId === email.id ? (
-                                        <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                                      ) : (
-                                        <Trash2 className="h-3.5 w-3.5" />
-                                      )}
-                                    </Button>
-
-                                    {/* Copy Button */}
-                                    <Button
-                                      variant="outline"
-                                      size="sm"
-                                      className="h-8 bg-card shadow-xs hover:bg-accent hover:text-accent-foreground"
-                                      onClick={async () => {
-                                        if (email.email_message) {
-                                          await navigator.clipboard.writeText(email.email_message);
-                                          setCopiedEmailId(email.id);
-                                          setTimeout(() => setCopiedEmailId(null), 2000);
-                                        }
-                                      }}
+                                </td>
+                                <td className="px-6 py-4 text-sm text-muted-foreground align-top">
+                                  <div className="max-w-xs wrap-break-word">
+                                    {email.recipient_interest}
+                                  </div>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm align-top">
+                                  <span className={`px-2.5 py-0.5 text-xs font-medium rounded-full border ${
+                                    email.is_confident
+                                      ? 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20'
+                                      : 'bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20'
+                                  }`}>
+                                    {email.is_confident ? 'Confident' : 'Draft'}
+                                  </span>
+                                  {regeneratingEmailIds.has(email.id) ? (
+                                    <span className="mt-2 flex items-center gap-1 text-xs text-primary">
+                                      <Loader2 className="h-3 w-3 animate-spin" />
+                                      Regenerating
+                                    </span>
+                                  ) : (emailVersions.get(email.id)?.length ?? 0) > 1 ? (
+                                    <button
+                                      type="button"
+                                      className="mt-2 block text-xs text-muted-foreground underline-offset-2 hover:text-foreground hover:underline"
+                                      onClick={() => setDetailEmailId(email.id)}
                                     >
-                                      {copiedEmailId === email.id ? (
-                                        <Check className="h-3.5 w-3.5" />
-                                      ) : (
-                                        <Copy className="h-3.5 w-3.5" />
+                                      {getRegeneratedFrom(email) ? 'Regenerated' : 'Original'} · {emailVersions.get(email.id)?.length} versions
+                                    </button>
+                                  ) : null}
+                                </td>
+                                <td className="px-6 py-4 text-sm text-muted-foreground relative group">
+                                  <div className="max-w-full">
+                                    <div>
+                                      {email.subject && (
+                                        <p className="mb-1 font-medium text-foreground">{email.subject}</p>
                                       )}
-                                    </Button>
+                                      <pre className="whitespace-pre-wrap font-sans text-sm leading-relaxed text-muted-foreground">
+                                        {email.email_message || "No content"}
+                                      </pre>
+                                    </div>
+                                    <div className={`absolute top-2 right-4 flex gap-2 transition-opacity duration-200 ${hoveredEmailId === email.id ? 'opacity-100' : 'opacity-0'}`}>
+                                      {/* Discard Button */}
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-8 bg-card shadow-xs hover:bg-destructive/10 hover:text-destructive hover:border-destructive/20"
+                                        onClick={() => {
+                                          setDiscardingEmailId(email.id);
+                                          discardEmail(
+                                            { emailId: email.id, displayed: false },
+                                            {
+                                              onSettled: () => setDiscardingEmailId(null),
+                                            }
+                                          );
+                                        }}
+                                        disabled={discardingEmailId === email.id}
+                                      >
+                                        {discardingEmailId === email.id ? (
+                                          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                                        ) : (
+                                          <Trash2 className="h-3.5 w-3.5" />
+                                        )}
+                                      </Button>
+
+                                      {/* Regenerate Button */}
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className={`h-8 bg-card shadow-xs hover:bg-accent hover:text-accent-foreground ${
+                                          email.is_confident ? '' : 'text-amber-600 dark:text-amber-400'
+                                        }`}
+                                        onClick={() => setRegenerateEmailId(email.id)}
+                                        disabled={regeneratingEmailIds.has(email.id)}
+                                        aria-label="Regenerate"
+                                      >
+                                        <RefreshCw className="h-3.5 w-3.5" />
+                                      </Button>
+
+                                      {/* Details Button */}
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-8 bg-card shadow-xs hover:bg-accent hover:text-accent-foreground"
+                                        onClick={() => setDetailEmailId(email.id)}
+                                        aria-label="View details"
+                                      >
+                                        <Maximize2 className="h-3.5 w-3.5" />
+                                      </Button>
+
+                                      {/* Send Menu */}
+                                      <SendEmailMenu email={email} />
+
+                                      {/* Copy Button */}
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-8 bg-card shadow-xs hover:bg-accent hover:text-accent-foreground"
+                                        onClick={async () => {
+                                          if (email.email_message) {
+                                            await navigator.clipboard.writeText(email.email_message);
+                                            setCopiedEmailId(email.id);
+                                            setTimeout(() => setCopiedEmailId(null), 2000);
+                                          }
+                                        }}
+                                      >
+                                        {copiedEmailId === email.id ? (
+                                          <Check className="h-3.5 w-3.5" />
+                                        ) : (
+                                          <Copy className="h-3.5 w-3.5" />
+                                        )}
+                                      </Button>
+                                    </div>
+                                  </div>
+                                </td>
+                              </tr>
+                            ))
+                          ) : (
+                            <tr>
+                              <td colSpan={5} className="px-6 py-12 text-center text-sm text-muted-foreground">
+                                <div className="flex flex-col items-center justify-center gap-2">
+                                  <div className="p-3 bg-muted rounded-full">
+                                    <Download className="h-6 w-6 text-muted-foreground" />
                                   </div>
+                                  {filtersActive ? (
+                                    <>
+                                      <p className="font-medium text-foreground">No matching emails</p>
+                                      <p className="text-muted-foreground">Try a different search or clear the filters.</p>
+                                      <Button variant="outline" size="sm" className="mt-2 bg-card" onClick={clearFilters}>
+                                        Clear filters
+                                      </Button>
+                                    </>
+                                  ) : (
+                                    <>
+                                      <p className="font-medium text-foreground">No emails yet</p>
+                                      <p className="text-muted-foreground">Generate your first email to see it here.</p>
+                                    </>
+                                  )}
                                 </div>
                               </td>
                             </tr>
-                          ))
-                        ) : (
-                          <tr>
-                            <td colSpan={4} className="px-6 py-12 text-center text-sm text-muted-foreground">
-                              <div className="flex flex-col items-center justify-center gap-2">
-                                <div className="p-3 bg-muted rounded-full">
-                                  <Download className="h-6 w-6 text-muted-foreground" />
-                                </div>
-                                <p className="font-medium text-foreground">No emails yet</p>
-                                <p className="text-muted-foreground">Generate your first email to see it here.</p>
-                              </div>
-                            </td>
-                          </tr>
-                        )}
-                      </tbody>
-                    </table>
-                  </div>
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
 
                   {/* Load More Button */}
                   {hasNextPage && (
@@ -360,6 +706,35 @@ export default function DashboardPage() {
               </Card>
             </SlideIn>
           </main>
+
+          <EmailDetailSheet
+            email={detailEmail}
+            versions={detailEmail ? emailVersions.get(detailEmail.id) : undefined}
+            onOpenChange={(open) => !open && setDetailEmailId(null)}
+            onSelectEmail={setDetailEmailId}
+          />
+          {regenerateTarget && (
+            <RegenerateDialog
+              email={regenerateTarget}
+              onOpenChange={(open) => !open && setRegenerateEmailId(null)}
+            />
+          )}
+          {exportScope && (
+            <ExportDialog
+              open
+              onOpenChange={(open) => !open && setExportScope(null)}
+              selectedCount={exportScope === "selected" ? selectedEmails.length : null}
+              onExport={(options) =>
+                exportScope === "selected"
+                  ? exportSelectedEmails(selectedEmails, options)
+                  : exportEmails(options)
+              }
+              progress={exportScope === "all" ? exportProgress : undefined}
+              error={error}
+              onResume={resumeExport}
+              onCancel={cancelExport}
+            />
+          )}
       </div>
     </ProtectedRoute>
   );
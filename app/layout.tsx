@@ -8,7 +8,6 @@ import { ThemeProvider } from "@/providers/ThemeProvider"
 import { AuthContextProvider } from "../context/AuthContextProvider"
 import { ErrorBoundary } from "@/components/ErrorBoundary"
 import { Toaster } from "sonner"
-import { RequestIdCapture } from "@/components/RequestIdCapture"
 import { LegacyCleanup } from "@/components/LegacyCleanup"
 
 const geistSans = Geist({
@@ -76,7 +75,6 @@ export default function RootLayout({
           closeButton
           duration={5000}
         />
-        <RequestIdCapture />
         <LegacyCleanup />
       </body>
     </html>
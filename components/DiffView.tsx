@@ -0,0 +1,45 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import type { DiffSegment } from "@/lib/text-diff";
+
+interface DiffViewProps {
+  segments: DiffSegment[];
+  // "before"/"after" render one side of a side-by-side diff
+  side?: "both" | "before" | "after";
+  className?: string;
+}
+
+/**
+ * Inline word diff: additions highlighted green, removals struck through red
+ */
+export function DiffView({ segments, side = "both", className }: DiffViewProps) {
+  const visible = segments.filter(
+    (segment) =>
+      (side !== "before" || segment.op !== "added") &&
+      (side !== "after" || segment.op !== "removed")
+  );
+
+  return (
+    <pre
+      className={cn(
+        "whitespace-pre-wrap wrap-break-word font-sans text-sm leading-relaxed text-muted-foreground",
+        className
+      )}
+    >
+      {visible.map((segment, index) => (
+        <span
+          key={index}
+          className={cn(
+            segment.op === "added" &&
+              "rounded-sm bg-green-500/15 text-green-700 dark:text-green-400",
+            segment.op === "removed" && "rounded-sm bg-destructive/15 text-destructive",
+            segment.op === "removed" && side === "both" && "line-through"
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </pre>
+  );
+}
@@ -4,6 +4,7 @@ import Link from "next/link";
 import { useAuth } from "@/context/AuthContextProvider";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { NotificationSettings } from "@/components/NotificationSettings";
 import { useRouter } from "next/navigation";
 
 export default function Navbar() {
@@ -35,6 +36,7 @@ export default function Navbar() {
             <span className="hidden sm:inline text-sm text-muted-foreground font-medium">
               {user?.displayName || "Guest"}
             </span>
+            <NotificationSettings />
             <ThemeToggle />
             <Button 
               variant="outline" 
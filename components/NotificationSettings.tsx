@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  getNotificationPermission,
+  requestNotificationPermission,
+  type NotificationPermissionState,
+} from "@/lib/notifications";
+import { toastService } from "@/lib/toast-service";
+import { useNotificationPreferences, useSetNotificationPreferences } from "@/stores/ui-store";
+
+const PERMISSION_HINTS: Partial<Record<NotificationPermissionState, string>> = {
+  denied: "Blocked in your browser settings. Allow notifications for this site to turn them on.",
+  unsupported: "This browser doesn't support notifications.",
+};
+
+export function NotificationSettings() {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => setOpen(true)}
+        className="h-9 w-9 border-border/50 bg-background/50 backdrop-blur-sm"
+      >
+        <Bell className="h-4 w-4" />
+        <span className="sr-only">Notification preferences</span>
+      </Button>
+      {open && <NotificationSettingsDialog onOpenChange={setOpen} />}
+    </>
+  );
+}
+
+function NotificationSettingsDialog({ onOpenChange }: { onOpenChange: (open: boolean) => void }) {
+  const preferences = useNotificationPreferences();
+  const setPreferences = useSetNotificationPreferences();
+  const [permission, setPermission] = useState(getNotificationPermission);
+  const [requesting, setRequesting] = useState(false);
+
+  const permissionHint = PERMISSION_HINTS[permission];
+  const desktopEnabled = preferences.desktop && permission === "granted";
+
+  const handleDesktopChange = async (checked: boolean) => {
+    if (!checked) {
+      setPreferences({ desktop: false });
+      return;
+    }
+
+    setRequesting(true);
+    try {
+      const result = await requestNotificationPermission();
+      setPermission(result);
+      if (result === "granted") {
+        setPreferences({ desktop: true });
+      } else {
+        toastService.warning("Notifications weren't allowed, so they stay off");
+      }
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Notifications</DialogTitle>
+          <DialogDescription>
+            How Scribe tells you a batch has finished. You get one summary per batch, not one per email.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={desktopEnabled}
+              disabled={requesting || permission === "denied" || permission === "unsupported"}
+              onChange={(e) => handleDesktopChange(e.target.checked)}
+            />
+            <span className="space-y-0.5">
+              <span className="block text-sm font-medium">Desktop notifications</span>
+              <span className="block text-xs text-muted-foreground">
+                When a batch finishes or emails fail while Scribe is in a background tab.
+              </span>
+              {permissionHint && <span className="block text-xs text-destructive">{permissionHint}</span>}
+            </span>
+          </label>
+
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={preferences.titleBadge}
+              onChange={(e) => setPreferences({ titleBadge: e.target.checked })}
+            />
+            <span className="space-y-0.5">
+              <span className="block text-sm font-medium">Count in tab title</span>
+              <span className="block text-xs text-muted-foreground">
+                Shows &ldquo;(3) Scribe&rdquo; while emails that finished in the background are unseen.
+              </span>
+            </span>
+          </label>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,515 @@
+/**
+ * Queue Panel Component
+ * Lists every queue item with its step-by-step pipeline timeline, with
+ * failed items (and retry) in their own section. Queued items can be
+ * paused, reordered by dragging and cancelled in bulk. Batches still in
+ * the offline outbox are listed above the queue.
+ */
+
+"use client";
+
+import { useMemo, useState, type KeyboardEvent, type LiHTMLAttributes, type ReactNode } from "react";
+import { skipToken, useQuery } from "@tanstack/react-query";
+import {
+  AlertCircle,
+  ChevronRight,
+  Circle,
+  CloudOff,
+  CircleCheck,
+  CircleMinus,
+  CircleX,
+  ExternalLink,
+  GripVertical,
+  Loader2,
+  Pause,
+  Play,
+  RotateCw,
+  Send,
+  Trash2,
+  X,
+} from "lucide-react";
+import { useBatchOutbox } from "@/hooks/useBatchOutbox";
+import { useQueueManager } from "@/hooks/useQueueManager";
+import type { OutboxEntry } from "@/lib/batch-outbox";
+import type { QueueItem, QueueItemProgress, QueueStatus } from "@/lib/schemas";
+import { queryKeys } from "@/lib/query-keys";
+import { isQueued } from "@/lib/queue-cache";
+import {
+  buildQueueTimeline,
+  formatStepDuration,
+  getStepLabel,
+  type TimelineState,
+} from "@/lib/queue-timeline";
+import { cn } from "@/lib/utils";
+import { getQueueErrorMessage } from "@/constants/error-messages";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+interface QueuePanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Opens a finished item's email; the link is hidden when omitted
+  onOpenEmail?: (emailId: string) => void;
+}
+
+const STATUS_ORDER: Record<QueueStatus, number> = {
+  processing: 0,
+  pending: 1,
+  paused: 1,
+  failed: 2,
+  completed: 2,
+};
+
+const STATUS_STYLES: Record<QueueStatus, string> = {
+  pending: "text-muted-foreground",
+  paused: "text-amber-600 dark:text-amber-400",
+  processing: "text-primary",
+  completed: "text-green-600 dark:text-green-400",
+  failed: "text-destructive",
+};
+
+const STEP_ICONS: Record<TimelineState, { icon: typeof Circle; className: string }> = {
+  done: { icon: CircleCheck, className: "text-green-600 dark:text-green-400" },
+  active: { icon: Loader2, className: "animate-spin text-primary" },
+  waiting: { icon: Circle, className: "text-muted-foreground/50" },
+  skipped: { icon: CircleMinus, className: "text-muted-foreground" },
+  failed: { icon: CircleX, className: "text-destructive" },
+};
+
+// Processing first, then queued in position order, then finished (newest first)
+function sortQueueItems(items: QueueItem[]): QueueItem[] {
+  return [...items].sort(
+    (a, b) =>
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+      (isQueued(a) ? (a.position ?? Infinity) - (b.position ?? Infinity) : 0) ||
+      b.created_at.localeCompare(a.created_at)
+  );
+}
+
+// Move id to index within the ordered ids
+function moveId(ids: string[], id: string, index: number): string[] {
+  const rest = ids.filter((other) => other !== id);
+  rest.splice(Math.max(0, Math.min(index, rest.length)), 0, id);
+  return rest;
+}
+
+export function QueuePanel({ open, onOpenChange, onOpenEmail }: QueuePanelProps) {
+  const {
+    queueItems,
+    pendingCount,
+    pausedCount,
+    processingCount,
+    retryItems,
+    cancelItems,
+    pauseQueue,
+    resumeQueue,
+    reorderQueue,
+  } = useQueueManager();
+  const outbox = useBatchOutbox();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const items = useMemo(() => sortQueueItems(queueItems), [queueItems]);
+  const failedItems = items.filter((item) => item.status === "failed");
+  const otherItems = items.filter((item) => item.status !== "failed");
+  const queuedIds = items.filter(isQueued).map((item) => item.id);
+  // Items that left the queue since they were selected can't be cancelled
+  const selectedQueuedIds = queuedIds.filter((id) => selectedIds.has(id));
+
+  // Mutations roll back and toast on failure (see useQueueManager)
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch {
+      // Already reported
+    }
+  };
+
+  const handleRetry = (ids: string[]) => run(() => retryItems(ids));
+
+  const handleCancelSelected = () =>
+    run(async () => {
+      await cancelItems(selectedQueuedIds);
+      setSelectedIds(new Set());
+    });
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (selected) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const moveTo = (id: string, index: number) => {
+    const next = moveId(queuedIds, id, index);
+    if (next.some((other, i) => other !== queuedIds[i])) {
+      void run(() => reorderQueue(next));
+    }
+  };
+
+  // Drag-and-drop (pointer) and Alt+Arrow keys on the handle (keyboard)
+  const getDropProps = (item: QueueItem): LiHTMLAttributes<HTMLLIElement> => ({
+    onDragOver: (event) => {
+      if (draggingId && draggingId !== item.id) event.preventDefault();
+    },
+    onDrop: (event) => {
+      event.preventDefault();
+      if (draggingId) moveTo(draggingId, queuedIds.indexOf(item.id));
+      setDraggingId(null);
+    },
+  });
+
+  const handleHandleKeyDown = (event: KeyboardEvent, id: string) => {
+    if (!event.altKey || (event.key !== "ArrowUp" && event.key !== "ArrowDown")) return;
+    event.preventDefault();
+    moveTo(id, queuedIds.indexOf(id) + (event.key === "ArrowUp" ? -1 : 1));
+  };
+
+  const handleOpenEmail = onOpenEmail
+    ? (emailId: string) => {
+        onOpenChange(false);
+        onOpenEmail(emailId);
+      }
+    : undefined;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-4 overflow-y-auto sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Queue</SheetTitle>
+          <SheetDescription>
+            {processingCount} processing · {pendingCount} pending · {items.length} total
+          </SheetDescription>
+        </SheetHeader>
+
+        {queuedIds.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            {pausedCount > 0 ? (
+              <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => run(resumeQueue)}>
+                <Play className="mr-1.5 h-3.5 w-3.5" />
+                Resume queue
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => run(pauseQueue)}>
+                <Pause className="mr-1.5 h-3.5 w-3.5" />
+                Pause queue
+              </Button>
+            )}
+            {selectedQueuedIds.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs text-destructive hover:text-destructive"
+                onClick={handleCancelSelected}
+              >
+                <X className="mr-1.5 h-3.5 w-3.5" />
+                Cancel {selectedQueuedIds.length} selected
+              </Button>
+            )}
+            {queuedIds.length > 1 && (
+              <span className="ml-auto text-xs text-muted-foreground">Drag to reorder</span>
+            )}
+          </div>
+        )}
+
+        {outbox.entries.length > 0 && (
+          <section className="space-y-2 rounded-md border border-amber-500/30 bg-amber-500/5 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="flex items-center gap-1.5 text-sm font-medium text-amber-700 dark:text-amber-400">
+                <CloudOff className="h-4 w-4" />
+                Not sent yet ({outbox.entries.length})
+              </h3>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={outbox.isSending}
+                onClick={() => run(outbox.sendNow)}
+              >
+                {outbox.isSending ? (
+                  <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <Send className="mr-1.5 h-3.5 w-3.5" />
+                )}
+                Send now
+              </Button>
+            </div>
+            <ul className="divide-y divide-amber-500/20">
+              {outbox.entries.map((entry) => (
+                <OutboxEntryRow
+                  key={entry.id}
+                  entry={entry}
+                  onDiscard={() => run(() => outbox.discardEntry(entry.id))}
+                />
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {failedItems.length > 0 && (
+          <section className="space-y-2 rounded-md border border-destructive/30 bg-destructive/5 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="flex items-center gap-1.5 text-sm font-medium text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                Failed ({failedItems.length})
+              </h3>
+              {failedItems.length > 1 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => handleRetry(failedItems.map((item) => item.id))}
+                >
+                  <RotateCw className="mr-1.5 h-3.5 w-3.5" />
+                  Retry all
+                </Button>
+              )}
+            </div>
+            <ul className="divide-y divide-destructive/20">
+              {failedItems.map((item) => (
+                <FailedItemRow key={item.id} item={item} onRetry={() => handleRetry([item.id])} />
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {items.length === 0 ? (
+          outbox.entries.length === 0 && (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              Nothing in the queue. Emails you generate show up here.
+            </p>
+          )
+        ) : (
+          <ul className="divide-y divide-border">
+            {otherItems.map((item) => (
+              <QueueItemRow
+                key={item.id}
+                item={item}
+                expanded={expandedId === item.id}
+                onToggle={() => setExpandedId((current) => (current === item.id ? null : item.id))}
+                onOpenEmail={handleOpenEmail}
+                className={cn(draggingId === item.id && "opacity-50")}
+                {...(isQueued(item) && {
+                  dropProps: getDropProps(item),
+                  leading: (
+                    <>
+                      <span
+                        role="button"
+                        tabIndex={0}
+                        draggable
+                        aria-label={`Reorder ${item.recipient_name} (Alt+Arrow keys)`}
+                        onDragStart={(event) => {
+                          event.dataTransfer.effectAllowed = "move";
+                          setDraggingId(item.id);
+                        }}
+                        onDragEnd={() => setDraggingId(null)}
+                        onKeyDown={(event) => handleHandleKeyDown(event, item.id)}
+                        className="cursor-grab rounded p-0.5 text-muted-foreground hover:text-foreground active:cursor-grabbing"
+                      >
+                        <GripVertical className="h-4 w-4" />
+                      </span>
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${item.recipient_name}`}
+                        checked={selectedIds.has(item.id)}
+                        onChange={(event) => toggleSelected(item.id, event.target.checked)}
+                      />
+                    </>
+                  ),
+                })}
+              />
+            ))}
+          </ul>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function OutboxEntryRow({ entry, onDiscard }: { entry: OutboxEntry; onDiscard: () => void }) {
+  const names = entry.items.map((item) => item.recipient_name);
+  const savedAt = new Date(entry.created_at).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  const status = entry.rejected
+    ? entry.last_error || "Rejected by the server"
+    : "Sends automatically when you're back online";
+
+  return (
+    <li className="flex items-start gap-3 py-2">
+      <div className="min-w-0 flex-1 space-y-0.5">
+        <p className="truncate text-sm font-medium text-foreground">
+          {names.length} recipient{names.length === 1 ? "" : "s"} · saved {savedAt}
+        </p>
+        <p className="truncate text-xs text-muted-foreground">{names.join(", ")}</p>
+        <p className={cn("text-xs", entry.rejected ? "text-destructive" : "text-foreground/80")}>{status}</p>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 shrink-0 text-xs text-destructive hover:text-destructive"
+        onClick={onDiscard}
+      >
+        <Trash2 className="mr-1.5 h-3.5 w-3.5" />
+        Discard
+      </Button>
+    </li>
+  );
+}
+
+function FailedItemRow({ item, onRetry }: { item: QueueItem; onRetry: () => void }) {
+  const explanation = getQueueErrorMessage(item.error_message, item.current_step);
+
+  return (
+    <li className="flex items-start gap-3 py-2">
+      <div className="min-w-0 flex-1 space-y-0.5">
+        <p className="truncate text-sm font-medium text-foreground">{item.recipient_name}</p>
+        <p className="text-xs text-foreground/80">{explanation.user}</p>
+        {item.error_message && (
+          <p className="break-all font-mono text-[11px] text-muted-foreground">{item.error_message}</p>
+        )}
+      </div>
+      <Button variant="ghost" size="sm" className="h-7 shrink-0 text-xs" onClick={onRetry}>
+        <RotateCw className="mr-1.5 h-3.5 w-3.5" />
+        Retry
+      </Button>
+    </li>
+  );
+}
+
+// One-line status under the recipient name
+function getItemSummary(item: QueueItem, progress?: QueueItemProgress): string {
+  const currentStep = progress?.current_step ?? item.current_step;
+  const totalSeconds = Object.values(progress?.step_timings ?? {}).reduce((sum, s) => sum + s, 0);
+
+  switch (item.status) {
+    case "pending":
+      return item.position ? `Position ${item.position} in queue` : "Waiting to start";
+    case "paused":
+      return "Paused until the queue is resumed";
+    case "processing":
+      return currentStep ? getStepLabel(currentStep) : "Starting…";
+    case "completed":
+      return totalSeconds > 0 ? `Done in ${formatStepDuration(totalSeconds)}` : "Completed";
+    case "failed":
+      return item.error_message || "Failed";
+  }
+}
+
+interface QueueItemRowProps {
+  item: QueueItem;
+  expanded: boolean;
+  onToggle: () => void;
+  onOpenEmail?: (emailId: string) => void;
+  // Controls before the expand toggle (reorder handle, selection)
+  leading?: ReactNode;
+  // Drop target handlers for reordering
+  dropProps?: LiHTMLAttributes<HTMLLIElement>;
+  className?: string;
+}
+
+function QueueItemRow({
+  item,
+  expanded,
+  onToggle,
+  onOpenEmail,
+  leading,
+  dropProps,
+  className,
+}: QueueItemRowProps) {
+  // Written by useQueueProgressStream; never fetched
+  const { data: progress } = useQuery<QueueItemProgress>({
+    queryKey: queryKeys.queue.progress(item.id),
+    queryFn: skipToken,
+  });
+
+  const timeline = buildQueueTimeline(item, progress);
+  const summary = getItemSummary(item, progress);
+
+  return (
+    <li className={cn("py-2", className)} {...dropProps}>
+      <div className="flex items-center gap-2">
+        {leading}
+        <button
+          type="button"
+          onClick={onToggle}
+          aria-expanded={expanded}
+          className="flex min-w-0 flex-1 items-center gap-3 rounded-md px-1 py-1.5 text-left hover:bg-accent/50"
+        >
+          <ChevronRight
+            className={cn(
+              "h-4 w-4 shrink-0 text-muted-foreground transition-transform",
+              expanded && "rotate-90"
+            )}
+          />
+          <span className="min-w-0 flex-1">
+            <span className="block truncate text-sm font-medium text-foreground">{item.recipient_name}</span>
+            <span
+              className={cn(
+                "block truncate text-xs",
+                item.status === "failed" ? "text-destructive" : "text-muted-foreground"
+              )}
+            >
+              {summary}
+            </span>
+          </span>
+          {isQueued(item) && item.position !== null && (
+            <span className="text-xs tabular-nums text-muted-foreground">#{item.position}</span>
+          )}
+          <span className={cn("text-xs font-medium capitalize", STATUS_STYLES[item.status])}>
+            {item.status}
+          </span>
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="ml-8 mt-2 space-y-3">
+          <ol className="space-y-1.5">
+            {timeline.map((entry) => {
+              const { icon: Icon, className } = STEP_ICONS[entry.state];
+              return (
+                <li key={entry.key} className="flex items-center gap-2 text-xs">
+                  <Icon className={cn("h-3.5 w-3.5 shrink-0", className)} />
+                  <span
+                    className={cn(
+                      "flex-1",
+                      entry.state === "waiting" || entry.state === "skipped"
+                        ? "text-muted-foreground"
+                        : "text-foreground"
+                    )}
+                  >
+                    {entry.label}
+                    {entry.state === "skipped" && " (skipped)"}
+                  </span>
+                  {entry.seconds !== null && (
+                    <span className="tabular-nums text-muted-foreground">
+                      {formatStepDuration(entry.seconds)}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+
+          {item.email_id && onOpenEmail && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => onOpenEmail(item.email_id!)}
+            >
+              <ExternalLink className="mr-1 h-3.5 w-3.5" />
+              View email
+            </Button>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
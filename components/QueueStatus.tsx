@@ -5,18 +5,32 @@
 
 "use client";
 
+import { useState } from "react";
+import { useBatchOutbox } from "@/hooks/useBatchOutbox";
 import { useQueueManager } from "@/hooks/useQueueManager";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { QueuePanel } from "@/components/QueuePanel";
+import { getStepLabel } from "@/lib/queue-timeline";
 import { cn } from "@/lib/utils";
 
-export function QueueStatus({ className }: { className?: string }) {
+interface QueueStatusProps {
+  className?: string;
+  // Opens a generated email from the queue panel
+  onOpenEmail?: (emailId: string) => void;
+}
+
+export function QueueStatus({ className, onOpenEmail }: QueueStatusProps) {
   const {
+    queueItems,
     currentItem,
     pendingCount,
+    pausedCount,
     processingCount,
     completedCount,
     failedCount,
   } = useQueueManager();
+  const { entries: outboxEntries } = useBatchOutbox();
+  const [panelOpen, setPanelOpen] = useState(false);
 
   const isProcessing = processingCount > 0;
 
@@ -34,10 +48,12 @@ export function QueueStatus({ className }: { className?: string }) {
             {isProcessing && currentItem ? (
               <>
                 <span className="inline-block w-1.5 h-1.5 bg-primary rounded-full animate-pulse" />
-                {currentItem.current_step?.replace(/_/g, ' ') || 'Processing...'}
+                {currentItem.current_step ? getStepLabel(currentItem.current_step) : 'Processing...'}
               </>
             ) : pendingCount > 0 ? (
               '• In queue'
+            ) : pausedCount > 0 ? (
+              <span className="text-amber-600 dark:text-amber-400">• Paused</span>
             ) : (
               <span className="text-muted-foreground">• Ready</span>
             )}
@@ -60,7 +76,7 @@ export function QueueStatus({ className }: { className?: string }) {
         {/* Dual Metrics Grid */}
         <div className="grid grid-cols-2 gap-3">
           <div className="flex flex-col">
-            <div className="text-2xl font-bold text-foreground">{pendingCount}</div>
+            <div className="text-2xl font-bold text-foreground">{pendingCount + pausedCount}</div>
             <p className="text-xs text-muted-foreground">Pending</p>
           </div>
           <div className="flex flex-col">
@@ -75,7 +91,27 @@ export function QueueStatus({ className }: { className?: string }) {
             <p className="text-xs text-destructive">Failed: {failedCount}</p>
           </div>
         )}
+
+        {outboxEntries.length > 0 && (
+          <div className="mt-2">
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              Not sent yet: {outboxEntries.length} batch{outboxEntries.length === 1 ? "" : "es"}
+            </p>
+          </div>
+        )}
+
+        {queueItems.length + outboxEntries.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setPanelOpen(true)}
+            className="mt-2 text-xs text-primary underline-offset-4 hover:underline"
+          >
+            View queue ({queueItems.length})
+          </button>
+        )}
       </CardContent>
+
+      <QueuePanel open={panelOpen} onOpenChange={setPanelOpen} onOpenEmail={onOpenEmail} />
     </Card>
   );
 }
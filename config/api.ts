@@ -60,3 +60,9 @@ export const SHOW_SHUTDOWN_NOTICE = false;
  * Helper to check if running in development
  */
 export const isDevelopment = () => ENVIRONMENT === 'DEVELOPMENT';
+
+/**
+ * Cookie middleware sets with the page load's request ID, so the client can
+ * send it on its first API call without the page reading request headers
+ */
+export const REQUEST_ID_COOKIE = 'request-id';
@@ -131,9 +131,63 @@ export const QUEUE_ERRORS = {
   UNKNOWN_ERROR: {
     dev: "Unknown queue processing error",
     user: "An unexpected error occurred during email generation."
+  },
+  STEP_TIMEOUT: {
+    dev: "Queue item exceeded the pipeline time limit",
+    user: "Generation took too long and was stopped. Retrying usually works."
+  },
+  RATE_LIMITED: {
+    dev: "Queue item failed on an upstream rate limit or quota",
+    user: "The writing service was busy. Wait a minute, then retry."
+  },
+  TEMPLATE_PARSE_FAILED: {
+    dev: "Queue item failed in template_parser",
+    user: "Your template couldn't be read. Check its placeholders, then retry."
+  },
+  RESEARCH_FAILED: {
+    dev: "Queue item failed in web_scraper",
+    user: "We couldn't find enough about this recipient online. Check the name and interest, then retry."
+  },
+  PUBLICATIONS_FAILED: {
+    dev: "Queue item failed in arxiv_helper",
+    user: "Looking up the recipient's publications failed. Retrying usually works."
+  },
+  COMPOSE_FAILED: {
+    dev: "Queue item failed in email_composer",
+    user: "Writing the email failed. Retrying usually works."
+  },
+  RETRY_FAILED: {
+    dev: "POST /api/queue/retry failed",
+    user: "Couldn't retry the failed emails. Please try again."
   }
 } as const;
 
+// Failed pipeline step (QueueItem.current_step) -> explanation
+const QUEUE_STEP_ERRORS: Record<string, ErrorMessage> = {
+  template_parser: QUEUE_ERRORS.TEMPLATE_PARSE_FAILED,
+  web_scraper: QUEUE_ERRORS.RESEARCH_FAILED,
+  arxiv_helper: QUEUE_ERRORS.PUBLICATIONS_FAILED,
+  email_composer: QUEUE_ERRORS.COMPOSE_FAILED,
+};
+
+/**
+ * Explain a failed queue item from its raw error_message and the step it
+ * failed in. Timeouts and rate limits win over the step, since retrying is
+ * the fix regardless of where they happened.
+ */
+export function getQueueErrorMessage(
+  errorMessage: string | null,
+  failedStep: string | null
+): ErrorMessage {
+  if (errorMessage && /timed?[\s_-]?out/i.test(errorMessage)) {
+    return QUEUE_ERRORS.STEP_TIMEOUT;
+  }
+  if (errorMessage && /rate[\s_-]?limit|\b429\b|quota/i.test(errorMessage)) {
+    return QUEUE_ERRORS.RATE_LIMITED;
+  }
+  return (failedStep && QUEUE_STEP_ERRORS[failedStep]) || QUEUE_ERRORS.TASK_FAILED;
+}
+
 // ========================================
 // STORAGE ERRORS
 // ========================================
@@ -184,6 +238,28 @@ export const STORAGE_ERRORS = {
   }
 } as const;
 
+// ========================================
+// RECIPIENT IMPORT ERRORS
+// ========================================
+export const IMPORT_ERRORS = {
+  UNSUPPORTED_FILE_TYPE: {
+    dev: "Recipient import file type not supported - expected CSV or XLSX",
+    user: "Unsupported file type. Please upload a .csv or .xlsx file."
+  },
+  FILE_TOO_LARGE: {
+    dev: "Recipient import file exceeds 5MB size limit",
+    user: "File is too large. Maximum size is 5MB."
+  },
+  EMPTY_FILE: {
+    dev: "Recipient import file contains no data rows",
+    user: "The file has no recipients. Make sure the first row contains column headers."
+  },
+  PARSE_FAILED: {
+    dev: "Failed to parse recipient import spreadsheet",
+    user: "Could not read the file. Please check that it is a valid CSV or Excel file."
+  }
+} as const;
+
 // ========================================
 // VALIDATION ERRORS
 // ========================================
@@ -241,6 +317,7 @@ export const ERROR_MESSAGES = {
   API: API_ERRORS,
   QUEUE: QUEUE_ERRORS,
   STORAGE: STORAGE_ERRORS,
+  IMPORT: IMPORT_ERRORS,
   VALIDATION: VALIDATION_ERRORS,
   UI: UI_ERRORS
 } as const;
@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { QueueItem } from "@/lib/api";
+import { describeBatchSummary, showBatchNotification, type BatchSummary } from "@/lib/notifications";
+import { toastService } from "@/lib/toast-service";
+import { useNotificationPreferences } from "@/stores/ui-store";
+
+interface UseBatchNotificationsOptions {
+  queueItems: QueueItem[];
+}
+
+const TITLE_BADGE = /^\(\d+\) /;
+
+const isActive = (item: QueueItem) => item.status === "pending" || item.status === "processing";
+
+/**
+ * Announces finished batches, one summary per batch.
+ *
+ * A batch is every item seen pending/processing until none are left (paused
+ * items wait for the user, so they don't hold a batch open). The summary is a
+ * Web Notification when the tab is hidden and the user opted in, otherwise a
+ * toast. While hidden, the tab title counts finished items, e.g. "(3) Scribe".
+ * Mount once (dashboard layout).
+ */
+export function useBatchNotifications({ queueItems }: UseBatchNotificationsOptions): void {
+  const preferences = useNotificationPreferences();
+
+  // Items seen active in the current batch, and how the finished ones ended
+  const watchingIds = useRef<Set<string>>(new Set());
+  const summary = useRef<BatchSummary>({ completed: 0, failed: 0 });
+  const [unseenCount, setUnseenCount] = useState(0);
+
+  useEffect(() => {
+    let finished = 0;
+    const present = new Set<string>();
+
+    for (const item of queueItems) {
+      present.add(item.id);
+      if (isActive(item)) {
+        watchingIds.current.add(item.id);
+      } else if (watchingIds.current.has(item.id) && item.status !== "paused") {
+        watchingIds.current.delete(item.id);
+        summary.current[item.status === "failed" ? "failed" : "completed"]++;
+        finished++;
+      }
+    }
+
+    // Cancelled items drop out of the batch silently
+    for (const id of watchingIds.current) {
+      if (!present.has(id)) watchingIds.current.delete(id);
+    }
+
+    if (finished > 0 && document.visibilityState === "hidden") {
+      setUnseenCount((count) => count + finished);
+    }
+
+    const batchDone = !queueItems.some(isActive);
+    const { completed, failed } = summary.current;
+    if (!batchDone || completed + failed === 0) return;
+
+    summary.current = { completed: 0, failed: 0 };
+    const hidden = document.visibilityState === "hidden";
+    if (hidden && preferences.desktop && showBatchNotification({ completed, failed })) return;
+
+    // Sonner holds toasts while the tab is hidden, so this is seen on return
+    const { title } = describeBatchSummary({ completed, failed });
+    if (failed > 0) {
+      toastService.warning(title);
+    } else {
+      toastService.success(title);
+    }
+  }, [queueItems, preferences.desktop]);
+
+  // Clear the badge when the user comes back to the tab
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") setUnseenCount(0);
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    const baseTitle = document.title.replace(TITLE_BADGE, "");
+    const count = preferences.titleBadge ? unseenCount : 0;
+    document.title = count > 0 ? `(${count}) ${baseTitle}` : baseTitle;
+  }, [unseenCount, preferences.titleBadge]);
+}
@@ -0,0 +1,109 @@
+/**
+ * Batch Outbox Hooks
+ *
+ * Lists batches waiting in the IndexedDB outbox (see lib/batch-outbox) and
+ * resends them when the browser comes back online or the dashboard loads.
+ */
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  flushOutbox,
+  getOutboxEntries,
+  removeOutboxEntry,
+  type OutboxEntry,
+} from "@/lib/batch-outbox";
+import { isIndexedDBAvailable } from "@/lib/idb";
+import { queryKeys } from "@/lib/query-keys";
+import { toastService } from "@/lib/toast-service";
+import logger from "@/utils/logger";
+
+export interface BatchOutboxState {
+  entries: OutboxEntry[];
+  isSending: boolean;
+
+  /** Resend every unsent batch now, including ones the API rejected */
+  sendNow: () => Promise<void>;
+  /** Drop a batch without sending it */
+  discardEntry: (id: string) => Promise<void>;
+}
+
+async function flushAndRefresh(
+  queryClient: QueryClient,
+  userId: string,
+  includeRejected: boolean
+): Promise<void> {
+  try {
+    const { sent, queued } = await flushOutbox(userId, { includeRejected });
+    if (sent > 0) {
+      logger.info(`[BatchOutbox] Resent ${sent} batches`, { queued });
+      toastService.success(
+        `Sent ${sent} saved batch${sent === 1 ? "" : "es"} · ${queued} email${queued === 1 ? "" : "s"} queued`
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.queue.items() });
+    }
+  } catch (error) {
+    logger.warn("[BatchOutbox] Flush failed", { error });
+  } finally {
+    queryClient.invalidateQueries({ queryKey: queryKeys.queue.outbox() });
+  }
+}
+
+export function useBatchOutbox(): BatchOutboxState {
+  const { user, supabaseReady } = useAuth();
+  const queryClient = useQueryClient();
+  const [isSending, setIsSending] = useState(false);
+  const userId = user?.uid;
+
+  const { data: entries = [] } = useQuery({
+    queryKey: queryKeys.queue.outbox(),
+    queryFn: () => getOutboxEntries(userId!),
+    enabled: !!userId && supabaseReady && isIndexedDBAvailable(),
+  });
+
+  const sendNow = useCallback(async () => {
+    if (!userId) return;
+    setIsSending(true);
+    try {
+      await flushAndRefresh(queryClient, userId, true);
+    } finally {
+      setIsSending(false);
+    }
+  }, [queryClient, userId]);
+
+  const discardEntry = useCallback(
+    async (id: string) => {
+      await removeOutboxEntry(id);
+      queryClient.invalidateQueries({ queryKey: queryKeys.queue.outbox() });
+    },
+    [queryClient]
+  );
+
+  return { entries, isSending, sendNow, discardEntry };
+}
+
+/**
+ * Resend unsent batches on load and whenever the browser comes back online
+ *
+ * Mount once (dashboard layout).
+ */
+export function useBatchOutboxSync(): void {
+  const { user, supabaseReady } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!userId || !supabaseReady || !isIndexedDBAvailable()) return;
+
+    const flush = () => {
+      if (navigator.onLine) void flushAndRefresh(queryClient, userId, false);
+    };
+
+    flush();
+    window.addEventListener("online", flush);
+    return () => window.removeEventListener("online", flush);
+  }, [queryClient, userId, supabaseReady]);
+}
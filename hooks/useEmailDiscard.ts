@@ -2,6 +2,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { emailAPI } from "@/lib/api";
 import { EmailResponse } from "@/lib/schemas";
 import { queryKeys } from "@/lib/query-keys";
+import { patchCachedEmails, restoreEmailCache, snapshotEmailCache } from "@/lib/email-cache";
 
 interface UseEmailDiscardOptions {
   onSuccess?: (data: EmailResponse) => void;
@@ -20,39 +21,18 @@ export function useEmailDiscard(options?: UseEmailDiscardOptions) {
 
     // Optimistic update: immediately update cache before server response
     onMutate: async ({ emailId, displayed }) => {
-      // Cancel outgoing refetches (so they don't overwrite optimistic update)
-      await queryClient.cancelQueries({ queryKey: queryKeys.emails.infiniteAll() });
-
-      // Snapshot previous value for rollback
-      const previousData = queryClient.getQueriesData({ queryKey: queryKeys.emails.infiniteAll() });
+      // Cancel outgoing refetches and snapshot previous value for rollback
+      const previousData = await snapshotEmailCache(queryClient);
 
       // Optimistically update email in infinite query cache
-      queryClient.setQueriesData<{
-        pages: EmailResponse[][];
-        pageParams: number[];
-      }>({ queryKey: queryKeys.emails.infiniteAll() }, (old) => {
-        if (!old) return old;
-
-        return {
-          ...old,
-          pages: old.pages.map((page) =>
-            page.map((email) =>
-              email.id === emailId ? { ...email, displayed } : email
-            )
-          ),
-        };
-      });
+      patchCachedEmails(queryClient, [emailId], { displayed });
 
       return { previousData };
     },
 
     // On error, rollback to previous data
     onError: (error, variables, context) => {
-      if (context?.previousData) {
-        context.previousData.forEach(([queryKey, data]) => {
-          queryClient.setQueryData(queryKey, data);
-        });
-      }
+      restoreEmailCache(queryClient, context?.previousData);
       options?.onError?.(error as Error);
     },
 
@@ -0,0 +1,50 @@
+/**
+ * Email Edit Hook
+ * Saves user edits to a generated email's subject and body with optimistic updates
+ */
+
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { emailAPI, ApiError } from "@/lib/api";
+import type { EmailResponse } from "@/lib/schemas";
+import { queryKeys } from "@/lib/query-keys";
+import { patchCachedEmails, restoreEmailCache, snapshotEmailCache } from "@/lib/email-cache";
+import { toastService } from "@/lib/toast-service";
+import logger from "@/utils/logger";
+
+export interface EmailEdit {
+  subject?: string | null;
+  email_message?: string;
+}
+
+export function useEmailEdit() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ emailId, changes }: { emailId: string; changes: EmailEdit }) =>
+      emailAPI.updateEmail(emailId, changes),
+
+    // Show the edit immediately; the list refetch below reconciles with the server
+    onMutate: async ({ emailId, changes }) => {
+      const previousData = await snapshotEmailCache(queryClient);
+      patchCachedEmails(queryClient, [emailId], changes);
+      return { previousData };
+    },
+
+    onError: (error, { emailId }, context) => {
+      restoreEmailCache(queryClient, context?.previousData);
+      logger.error("[Emails] Edit failed", { emailId, error });
+      toastService.errorMessage(
+        error instanceof ApiError ? error.getUserMessage() : "Failed to save email"
+      );
+    },
+
+    onSuccess: (email: EmailResponse) => {
+      patchCachedEmails(queryClient, [email.id], email);
+      queryClient.setQueryData(queryKeys.emails.detail(email.id), email);
+      queryClient.invalidateQueries({ queryKey: queryKeys.emails.infiniteAll() });
+      toastService.success("Email saved");
+    },
+  });
+}
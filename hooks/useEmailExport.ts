@@ -1,72 +1,188 @@
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { emailAPI } from "@/lib/api";
+import { AbortError, ApiError } from "@/lib/api/errors";
 import { EmailResponse } from "@/lib/schemas";
-import { convertEmailsToExcel, downloadExcel } from "@/lib/excel-utils";
+import { buildExportFile, type ExportOptions } from "@/lib/email-export";
+import type { ExportWorkerRequest, ExportWorkerResponse } from "@/lib/email-export.worker";
+import { downloadBlob } from "@/lib/download";
+
+const BATCH_SIZE = 1000;
+
+export type ExportStatus = "idle" | "fetching" | "failed" | "building";
+
+export interface ExportProgress {
+  status: ExportStatus;
+  pagesFetched: number;
+  rowsFetched: number;
+  rowsWritten: number;
+  // 1-indexed page that exhausted its retries (status "failed" only)
+  failedPage: number | null;
+}
+
+const IDLE_PROGRESS: ExportProgress = {
+  status: "idle",
+  pagesFetched: 0,
+  rowsFetched: 0,
+  rowsWritten: 0,
+  failedPage: null,
+};
+
+// A single export; kept across a failed page so it can resume from the same offset
+interface ExportRun {
+  worker: Worker;
+  controller: AbortController;
+  offset: number;
+  // Settles the promise returned by exportEmails
+  settle: () => void;
+}
 
 interface UseEmailExportReturn {
   isExporting: boolean;
+  progress: ExportProgress;
   error: string | null;
-  exportEmails: () => Promise<void>;
+  exportEmails: (options: ExportOptions) => Promise<void>;
+  resumeExport: () => void;
+  cancelExport: () => void;
+  exportSelectedEmails: (emails: EmailResponse[], options: ExportOptions) => void;
 }
 
 /**
- * Hook for exporting all emails as Excel
- * Handles pagination and error handling
+ * Hook for exporting all emails in any supported format (see lib/email-export.ts)
+ *
+ * Pages are fetched here (auth, retries and cancellation live in the API client)
+ * and streamed to a Web Worker that writes the file. If a page still fails after
+ * its retries, the export pauses and resumeExport() continues from that page.
  */
 export function useEmailExport(): UseEmailExportReturn {
-  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress>(IDLE_PROGRESS);
   const [error, setError] = useState<string | null>(null);
+  const runRef = useRef<ExportRun | null>(null);
+
+  const endRun = useCallback((run: ExportRun) => {
+    run.controller.abort();
+    run.worker.terminate();
+    run.settle();
+    if (runRef.current === run) {
+      runRef.current = null;
+      setProgress(IDLE_PROGRESS);
+    }
+  }, []);
+
+  // Don't leave a worker running after the dashboard unmounts
+  useEffect(() => () => {
+    if (runRef.current) endRun(runRef.current);
+  }, [endRun]);
 
-  const exportEmails = async () => {
-    setIsExporting(true);
+  const fetchPages = useCallback(async (run: ExportRun) => {
     setError(null);
+    setProgress((current) => ({ ...current, status: "fetching", failedPage: null }));
 
     try {
-      const allEmails: EmailResponse[] = [];
-      let offset = 0;
-      const BATCH_SIZE = 1000;
-      let hasMore = true;
-
-      while (hasMore) {
+      while (true) {
         // Use API client's built-in retry logic
-        const batch = await emailAPI.getEmailHistory(BATCH_SIZE, offset, {
-          retry: { maxAttempts: 3, baseDelay: 1000 }
+        const batch = await emailAPI.getEmailHistory(BATCH_SIZE, run.offset, {}, {
+          signal: run.controller.signal,
+          retry: { maxAttempts: 3, baseDelay: 1000 },
         });
-
-        if (batch.length === 0) {
-          hasMore = false;
-          break;
-        }
+        if (runRef.current !== run) return;
 
         // Filter out discarded emails (backend already filters, but this is defensive)
         const displayedEmails = batch.filter(email => email.displayed !== false);
-        allEmails.push(...displayedEmails);
-        offset += BATCH_SIZE;
+        if (displayedEmails.length > 0) {
+          run.worker.postMessage({ type: "page", emails: displayedEmails } satisfies ExportWorkerRequest);
+        }
+        run.offset += BATCH_SIZE;
+        setProgress((current) => ({
+          ...current,
+          pagesFetched: current.pagesFetched + 1,
+          rowsFetched: current.rowsFetched + displayedEmails.length,
+        }));
+
+        // A short page means we've reached the end
+        if (batch.length < BATCH_SIZE) break;
+      }
+    } catch (err) {
+      if (runRef.current !== run || err instanceof AbortError) return;
+
+      // Keep the worker and offset; rows already written are not refetched
+      setError(err instanceof ApiError ? err.getUserMessage() : "Export failed");
+      setProgress((current) => ({
+        ...current,
+        status: "failed",
+        failedPage: current.pagesFetched + 1,
+      }));
+      return;
+    }
+
+    setProgress((current) => ({ ...current, status: "building" }));
+    run.worker.postMessage({ type: "finish" } satisfies ExportWorkerRequest);
+  }, []);
+
+  const exportEmails = useCallback((options: ExportOptions) => {
+    if (runRef.current) endRun(runRef.current);
+
+    return new Promise<void>((resolve) => {
+      const worker = new Worker(new URL("../lib/email-export.worker.ts", import.meta.url), {
+        type: "module",
+      });
+      const run: ExportRun = { worker, controller: new AbortController(), offset: 0, settle: resolve };
+      runRef.current = run;
+
+      worker.onmessage = (event: MessageEvent<ExportWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === "progress") {
+          setProgress((current) => ({ ...current, rowsWritten: message.rowsWritten }));
+          return;
+        }
 
-        // Check if we've reached the end (batch returned less than requested)
-        if (batch.length < BATCH_SIZE) {
-          hasMore = false;
+        if (message.type === "error") {
+          setError(message.message);
+        } else if (message.rowsWritten === 0) {
+          setError("No emails to export");
         } else {
-          // Delay between batches to avoid rate limiting
-          await new Promise((resolve) => setTimeout(resolve, 1000));
+          downloadBlob(message.file.blob, message.file.filename);
         }
-      }
+        endRun(run);
+      };
+      worker.onerror = () => {
+        setError("Export failed");
+        endRun(run);
+      };
 
-      if (allEmails.length === 0) {
-        setError("No emails to export");
-        return;
-      }
+      worker.postMessage({ type: "start", options } satisfies ExportWorkerRequest);
+      setProgress({ ...IDLE_PROGRESS, status: "fetching" });
+      void fetchPages(run);
+    });
+  }, [endRun, fetchPages]);
+
+  const resumeExport = useCallback(() => {
+    const run = runRef.current;
+    if (run && progress.status === "failed") void fetchPages(run);
+  }, [fetchPages, progress.status]);
+
+  const cancelExport = useCallback(() => {
+    if (runRef.current) endRun(runRef.current);
+    setError(null);
+  }, [endRun]);
 
-      // Generate Excel and trigger download
-      const workbook = convertEmailsToExcel(allEmails);
-      const timestamp = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
-      downloadExcel(workbook, `email-history-${timestamp}.xlsx`);
+  // Selection is already loaded, so no fetching is needed
+  const exportSelectedEmails = (emails: EmailResponse[], options: ExportOptions) => {
+    setError(null);
+    try {
+      const { blob, filename } = buildExportFile(emails, options, "email-history-selected");
+      downloadBlob(blob, filename);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Export failed");
-    } finally {
-      setIsExporting(false);
     }
   };
 
-  return { isExporting, error, exportEmails };
+  return {
+    isExporting: progress.status !== "idle",
+    progress,
+    error,
+    exportEmails,
+    resumeExport,
+    cancelExport,
+    exportSelectedEmails,
+  };
 }
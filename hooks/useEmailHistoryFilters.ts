@@ -0,0 +1,54 @@
+/**
+ * Email History Filters Hook
+ * Search, filter and sort state for the dashboard, synced to the URL
+ */
+
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import type { EmailHistoryFilters } from "@/lib/schemas";
+import { parseEmailFilters, serializeEmailFilters } from "@/lib/email-filters";
+
+export interface EmailHistoryFiltersState {
+  filters: EmailHistoryFilters;
+  updateFilters: (patch: Partial<EmailHistoryFilters>) => void;
+  clearFilters: () => void;
+}
+
+/**
+ * The URL is the source of truth, so filtered views can be bookmarked and
+ * shared, and back/forward restore previous searches.
+ */
+export function useEmailHistoryFilters(): EmailHistoryFiltersState {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = useMemo(
+    () => parseEmailFilters(new URLSearchParams(searchParams.toString())),
+    [searchParams]
+  );
+
+  const replaceFilters = useCallback(
+    (next: EmailHistoryFilters) => {
+      const params = serializeEmailFilters(next, new URLSearchParams(searchParams.toString()));
+      const query = params.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [router, pathname, searchParams]
+  );
+
+  const updateFilters = useCallback(
+    (patch: Partial<EmailHistoryFilters>) => replaceFilters({ ...filters, ...patch }),
+    [filters, replaceFilters]
+  );
+
+  // Clearing keeps the current view (emails vs trash)
+  const clearFilters = useCallback(
+    () => replaceFilters({ displayed: filters.displayed }),
+    [filters.displayed, replaceFilters]
+  );
+
+  return { filters, updateFilters, clearFilters };
+}
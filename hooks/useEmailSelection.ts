@@ -0,0 +1,80 @@
+/**
+ * Email Selection Hook
+ * Multi-select over an ordered list of emails with shift-click ranges
+ */
+
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+
+export interface EmailSelectionState {
+  // Selected ids still present in the list, in list order
+  selectedIds: string[];
+  isSelected: (emailId: string) => boolean;
+  allSelected: boolean;
+  someSelected: boolean;
+
+  /** Toggle one email; with shiftKey, apply the same state to the range from the last click */
+  toggle: (emailId: string, shiftKey?: boolean) => void;
+  selectAll: (emailIds?: string[]) => void;
+  clear: () => void;
+}
+
+export function useEmailSelection(emailIds: string[]): EmailSelectionState {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  // Selections for emails that left the list (discarded, filtered out) are ignored
+  const selectedIds = emailIds.filter((id) => selected.has(id));
+  const allSelected = emailIds.length > 0 && selectedIds.length === emailIds.length;
+
+  const toggle = useCallback(
+    (emailId: string, shiftKey = false) => {
+      setSelected((current) => {
+        const next = new Set(current);
+        const shouldSelect = !current.has(emailId);
+        const anchorIndex = anchorRef.current ? emailIds.indexOf(anchorRef.current) : -1;
+        const targetIndex = emailIds.indexOf(emailId);
+
+        const range =
+          shiftKey && anchorIndex !== -1 && targetIndex !== -1
+            ? emailIds.slice(
+                Math.min(anchorIndex, targetIndex),
+                Math.max(anchorIndex, targetIndex) + 1
+              )
+            : [emailId];
+
+        for (const id of range) {
+          if (shouldSelect) {
+            next.add(id);
+          } else {
+            next.delete(id);
+          }
+        }
+        return next;
+      });
+      anchorRef.current = emailId;
+    },
+    [emailIds]
+  );
+
+  const selectAll = useCallback(
+    (ids: string[] = emailIds) => setSelected(new Set(ids)),
+    [emailIds]
+  );
+
+  const clear = useCallback(() => {
+    setSelected(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  return {
+    selectedIds,
+    isSelected: (emailId) => selected.has(emailId),
+    allSelected,
+    someSelected: selectedIds.length > 0 && !allSelected,
+    toggle,
+    selectAll,
+    clear,
+  };
+}
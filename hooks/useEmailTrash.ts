@@ -0,0 +1,172 @@
+/**
+ * Email Trash Hook
+ * Bulk discard, restore and permanent delete with optimistic updates
+ */
+
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { emailAPI } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+import { removeCachedEmails, restoreEmailCache, snapshotEmailCache } from "@/lib/email-cache";
+import { toastService } from "@/lib/toast-service";
+import logger from "@/utils/logger";
+
+interface BulkResult {
+  succeeded: string[];
+  failed: string[];
+}
+
+// Requests in flight at once; each may also retry, and a 429 pauses all of /api/email
+const BULK_CONCURRENCY = 5;
+
+/**
+ * Run a per-email request for each id through a small worker pool,
+ * collecting which ones failed
+ *
+ * Batches larger than the pool show a progress toast, e.g. "Discarding 40/300…".
+ */
+async function runForEach(
+  emailIds: string[],
+  request: (emailId: string) => Promise<unknown>,
+  progressLabel: string
+): Promise<BulkResult> {
+  const succeeded = new Set<string>();
+  let next = 0;
+  let done = 0;
+
+  const showProgress = emailIds.length > BULK_CONCURRENCY;
+  const toastId = showProgress
+    ? toastService.loading(`${progressLabel} 0/${emailIds.length}…`)
+    : undefined;
+
+  const worker = async () => {
+    while (next < emailIds.length) {
+      const emailId = emailIds[next++];
+      try {
+        await request(emailId);
+        succeeded.add(emailId);
+      } catch {
+        // Reported as failed below
+      }
+      done++;
+      if (toastId !== undefined) {
+        toastService.loading(`${progressLabel} ${done}/${emailIds.length}…`, { id: toastId });
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, emailIds.length) }, worker));
+  } finally {
+    if (toastId !== undefined) toastService.dismiss(toastId);
+  }
+
+  const result: BulkResult = {
+    succeeded: emailIds.filter((emailId) => succeeded.has(emailId)),
+    failed: emailIds.filter((emailId) => !succeeded.has(emailId)),
+  };
+  if (result.succeeded.length === 0) {
+    throw new Error(`All ${emailIds.length} requests failed`);
+  }
+  return result;
+}
+
+function pluralize(count: number): string {
+  return `${count} email${count === 1 ? "" : "s"}`;
+}
+
+export function useEmailTrash() {
+  const queryClient = useQueryClient();
+
+  // Emails leave the current list immediately; the refetch on settle
+  // brings back any that failed and updates the other view.
+  const onMutate = async (emailIds: string[]) => {
+    const previousData = await snapshotEmailCache(queryClient);
+    removeCachedEmails(queryClient, emailIds);
+    return { previousData };
+  };
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.emails.infiniteAll() });
+  };
+
+  const discardMutation = useMutation({
+    mutationFn: (emailIds: string[]) =>
+      runForEach(
+        emailIds,
+        (emailId) => emailAPI.updateEmail(emailId, { displayed: false }),
+        "Discarding"
+      ),
+    onMutate,
+    onSuccess: ({ succeeded, failed }) => {
+      logger.info("[Trash] Discarded emails", { count: succeeded.length, failed: failed.length });
+      toastService.success(`Moved ${pluralize(succeeded.length)} to trash`, {
+        action: {
+          label: "Undo",
+          onClick: () => restoreMutation.mutate(succeeded),
+        },
+      });
+      if (failed.length > 0) {
+        toastService.warning(`Couldn't discard ${pluralize(failed.length)}`);
+      }
+    },
+    onError: (error, _emailIds, context) => {
+      restoreEmailCache(queryClient, context?.previousData);
+      logger.error("[Trash] Discard failed", { error });
+      toastService.errorMessage("Failed to discard emails");
+    },
+    onSettled,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (emailIds: string[]) =>
+      runForEach(
+        emailIds,
+        (emailId) => emailAPI.updateEmail(emailId, { displayed: true }),
+        "Restoring"
+      ),
+    onMutate,
+    onSuccess: ({ succeeded, failed }) => {
+      logger.info("[Trash] Restored emails", { count: succeeded.length, failed: failed.length });
+      toastService.success(`Restored ${pluralize(succeeded.length)}`);
+      if (failed.length > 0) {
+        toastService.warning(`Couldn't restore ${pluralize(failed.length)}`);
+      }
+    },
+    onError: (error, _emailIds, context) => {
+      restoreEmailCache(queryClient, context?.previousData);
+      logger.error("[Trash] Restore failed", { error });
+      toastService.errorMessage("Failed to restore emails");
+    },
+    onSettled,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (emailIds: string[]) =>
+      runForEach(emailIds, (emailId) => emailAPI.deleteEmail(emailId), "Deleting"),
+    onMutate,
+    onSuccess: ({ succeeded, failed }) => {
+      logger.info("[Trash] Deleted emails", { count: succeeded.length, failed: failed.length });
+      toastService.success(`Permanently deleted ${pluralize(succeeded.length)}`);
+      if (failed.length > 0) {
+        toastService.warning(`Couldn't delete ${pluralize(failed.length)}`);
+      }
+    },
+    onError: (error, _emailIds, context) => {
+      restoreEmailCache(queryClient, context?.previousData);
+      logger.error("[Trash] Delete failed", { error });
+      toastService.errorMessage("Failed to delete emails");
+    },
+    onSettled,
+  });
+
+  return {
+    discardEmails: discardMutation.mutate,
+    restoreEmails: restoreMutation.mutate,
+    deleteEmails: deleteMutation.mutate,
+    isDiscarding: discardMutation.isPending,
+    isRestoring: restoreMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+  };
+}
@@ -1,6 +1,6 @@
 /**
  * Infinite Email History Hook
- * Supports pagination with "Load More" functionality
+ * Supports pagination with "Load More" functionality, optionally filtered
  */
 
 "use client";
@@ -8,18 +8,24 @@
 import { useInfiniteQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { emailAPI } from "@/lib/api";
-import { EmailHistory } from "@/lib/schemas";
+import { EmailHistory, type EmailHistoryFilters } from "@/lib/schemas";
 import { queryKeys } from "@/lib/query-keys";
+import { normalizeEmailFilters } from "@/lib/email-filters";
 
 const EMAILS_PER_PAGE = 100;
 
-export function useInfiniteEmailHistory() {
+export function useInfiniteEmailHistory(filters: EmailHistoryFilters = {}) {
   const { user, loading, userInitError } = useAuth();
+  const normalizedFilters = normalizeEmailFilters(filters);
 
   return useInfiniteQuery<EmailHistory>({
-    queryKey: user?.uid ? queryKeys.emails.infinite(user.uid) : ['emails-infinite-disabled'],
-    queryFn: ({ pageParam = 0 }) => {
-      return emailAPI.getEmailHistory(EMAILS_PER_PAGE, pageParam as number);
+    queryKey: user?.uid
+      ? queryKeys.emails.infinite(user.uid, normalizedFilters)
+      : ['emails-infinite-disabled'],
+    queryFn: ({ pageParam = 0, signal }) => {
+      return emailAPI.getEmailHistory(EMAILS_PER_PAGE, pageParam as number, normalizedFilters, {
+        signal,
+      });
     },
     getNextPageParam: (lastPage, allPages) => {
       // If the last page has fewer emails than the page size, we've reached the end
@@ -33,5 +39,7 @@ export function useInfiniteEmailHistory() {
     initialPageParam: 0,
     staleTime: 30 * 1000, // Consider data fresh for 30 seconds
     refetchOnWindowFocus: true,
+    // Keep showing the previous results while a new filter combination loads
+    placeholderData: (previous) => previous,
   });
 }
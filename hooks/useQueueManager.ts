@@ -8,14 +8,37 @@
 "use client";
 
 import { useMemo } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
-import { queueAPI, type QueueItem, type BatchItem } from "@/lib/api";
+import {
+  queueAPI,
+  RateLimitError,
+  type QueueItem,
+  type BatchItem,
+  type RegenerateEmailRequest,
+} from "@/lib/api";
+import {
+  addOutboxEntry,
+  isOutboxRetryable,
+  recordOutboxFailure,
+  removeOutboxEntry,
+  sendOutboxEntry,
+} from "@/lib/batch-outbox";
 import { queryKeys } from "@/lib/query-keys";
+import {
+  removeQueueItems,
+  reorderQueueItems,
+  setQueueItemsStatus,
+} from "@/lib/queue-cache";
 import { toastService } from "@/lib/toast-service";
+import { QUEUE_ERRORS } from "@/constants/error-messages";
+import { useQueueRealtimeStatus } from "@/stores/ui-store";
 import logger from "@/utils/logger";
 import { useQueueCompletionWatcher } from "./useQueueCompletionWatcher";
 
+// "outbox": the API couldn't be reached, so the batch waits in the outbox to be resent
+export type BatchSubmitOutcome = "queued" | "outbox";
+
 export interface QueueManagerState {
   // Queue data from server
   queueItems: QueueItem[];
@@ -23,6 +46,7 @@ export interface QueueManagerState {
 
   // Computed stats
   pendingCount: number;
+  pausedCount: number;
   processingCount: number;
   completedCount: number;
   failedCount: number;
@@ -31,22 +55,51 @@ export interface QueueManagerState {
   currentItem: QueueItem | null;
 
   // Actions
-  submitBatch: (items: Array<{ name: string; interest: string }>, template: string) => Promise<void>;
+  submitBatch: (items: BatchItem[], template: string) => Promise<BatchSubmitOutcome>;
+  regenerateEmail: (request: RegenerateEmailRequest) => Promise<void>;
   cancelItem: (id: string) => Promise<void>;
+  retryItems: (ids: string[]) => Promise<void>;
+  cancelItems: (ids: string[]) => Promise<void>;
+  pauseQueue: () => Promise<void>;
+  resumeQueue: () => Promise<void>;
+  // Pending/paused item ids in their new order
+  reorderQueue: (ids: string[]) => Promise<void>;
+}
+
+const plural = (count: number) => `${count} email${count === 1 ? "" : "s"}`;
+
+/**
+ * Optimistically patch the cached queue before a queue action
+ *
+ * Cancels in-flight refetches so they can't overwrite the patch, and returns
+ * the previous items for rollback.
+ */
+async function patchQueueCache(
+  queryClient: QueryClient,
+  update: (items: QueueItem[]) => QueueItem[]
+): Promise<QueueItem[] | undefined> {
+  await queryClient.cancelQueries({ queryKey: queryKeys.queue.items() });
+  const previousItems = queryClient.getQueryData<QueueItem[]>(queryKeys.queue.items());
+  queryClient.setQueryData<QueueItem[]>(queryKeys.queue.items(), (items) => items && update(items));
+  return previousItems;
 }
 
 /**
  * Server-driven queue manager hook
  *
  * Features:
- * - Polls /api/queue/ every 2 seconds when items are pending/processing
+ * - Cache is patched from Supabase Realtime (see useQueueRealtimeSync)
+ * - Falls back to polling /api/queue/ every 2 seconds when items are
+ *   pending/processing and the Realtime channel is not connected
  * - Database is the single source of truth
+ * - Batches that can't reach the API wait in the IndexedDB outbox
  * - No localStorage persistence needed
  * - Automatic cache invalidation on mutations
  */
 export function useQueueManager(): QueueManagerState {
   const { user, supabaseReady } = useAuth();
   const queryClient = useQueryClient();
+  const realtimeConnected = useQueueRealtimeStatus() === "connected";
 
   // Poll queue status from server
   const {
@@ -62,7 +115,8 @@ export function useQueueManager(): QueueManagerState {
       const hasActive = items.some(
         (i) => i.status === "pending" || i.status === "processing"
       );
-      return hasActive ? 2000 : false; // Poll every 2s if active, otherwise stop
+      // Poll every 2s if active and Realtime is down, otherwise stop
+      return hasActive && !realtimeConnected ? 2000 : false;
     },
     staleTime: 1000, // Consider data fresh for 1 second
   });
@@ -73,9 +127,37 @@ export function useQueueManager(): QueueManagerState {
       if (!template) {
         throw new Error("Email template is required");
       }
-      return queueAPI.submitBatch(items, template);
+
+      // Saved first so a batch that can't be sent is resent later (useBatchOutboxSync)
+      const entry = user?.uid ? await addOutboxEntry(user.uid, items, template) : null;
+      if (!entry) {
+        return queueAPI.submitBatch(items, template);
+      }
+
+      try {
+        const response = await sendOutboxEntry(entry);
+        await removeOutboxEntry(entry.id);
+        return response;
+      } catch (error) {
+        // Rate-limited batches stay in the form; Generate counts down to the retry
+        if (!isOutboxRetryable(error) || error instanceof RateLimitError) {
+          await removeOutboxEntry(entry.id);
+          throw error;
+        }
+        logger.warn("[Queue] Batch kept in outbox", { id: entry.id, error });
+        await recordOutboxFailure(entry, error);
+        // Null: not sent yet, but safe in the outbox
+        return null;
+      }
     },
-    onSuccess: (data) => {
+    onSuccess: (data, { items }) => {
+      if (!data) {
+        toastService.warning(
+          `Couldn't reach the server · ${plural(items.length)} saved and will be sent when you're back online`
+        );
+        return;
+      }
+
       logger.info(`[Queue] Submitted ${data.queue_item_ids.length} items`);
       toastService.success(`Added ${data.queue_item_ids.length} items to queue`);
 
@@ -84,7 +166,28 @@ export function useQueueManager(): QueueManagerState {
     },
     onError: (error) => {
       logger.error("[Queue] Batch submission failed", { error });
-      toastService.errorMessage("Failed to add items to queue");
+      if (error instanceof RateLimitError) {
+        toastService.warning(error.getUserMessage());
+      } else {
+        toastService.errorMessage("Failed to add items to queue");
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.queue.outbox() });
+    },
+  });
+
+  // Single-email regeneration mutation
+  const regenerateMutation = useMutation({
+    mutationFn: (request: RegenerateEmailRequest) => queueAPI.regenerateEmail(request),
+    onSuccess: (_data, request) => {
+      logger.info("[Queue] Regeneration queued", { sourceEmailId: request.source_email_id });
+      toastService.success(`Regenerating email for ${request.recipient_name}`);
+      queryClient.invalidateQueries({ queryKey: queryKeys.queue.items() });
+    },
+    onError: (error) => {
+      logger.error("[Queue] Regeneration failed", { error });
+      toastService.errorMessage("Failed to queue regeneration");
     },
   });
 
@@ -102,9 +205,131 @@ export function useQueueManager(): QueueManagerState {
     },
   });
 
+  // Retry mutation: failed items go back to pending in place
+  const retryMutation = useMutation({
+    mutationFn: (ids: string[]) => queueAPI.retryItems({ queue_item_ids: ids }),
+    onMutate: async (ids) => {
+      const retrying = new Set(ids);
+      const previousItems = await patchQueueCache(queryClient, (items) =>
+        items.map((item) =>
+          retrying.has(item.id) && item.status === "failed"
+            ? { ...item, status: "pending", error_message: null, current_step: null }
+            : item
+        )
+      );
+      return { previousItems };
+    },
+    onSuccess: (data, ids) => {
+      const retried = data.queue_item_ids.length;
+      const skipped = ids.length - retried;
+      logger.info(`[Queue] Retrying ${retried} items`, { skipped });
+
+      const message = `Retrying ${plural(retried)}`;
+      if (skipped > 0) {
+        toastService.warning(`${message} · ${skipped} no longer failed`);
+      } else {
+        toastService.success(message);
+      }
+    },
+    onError: (error, _ids, context) => {
+      logger.error("[Queue] Retry failed", { error });
+      queryClient.setQueryData(queryKeys.queue.items(), context?.previousItems);
+      toastService.error(QUEUE_ERRORS.RETRY_FAILED);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.queue.items() });
+    },
+  });
+
+  // Bulk cancel mutation (pending/paused items only)
+  const cancelItemsMutation = useMutation({
+    mutationFn: (ids: string[]) => queueAPI.cancelItems({ queue_item_ids: ids }),
+    onMutate: async (ids) => ({
+      previousItems: await patchQueueCache(queryClient, (items) => removeQueueItems(items, ids)),
+    }),
+    onSuccess: (data) => {
+      logger.info(`[Queue] Cancelled ${data.queue_item_ids.length} items`);
+      toastService.success(`Cancelled ${plural(data.queue_item_ids.length)}`);
+    },
+    onError: (error, _ids, context) => {
+      logger.error("[Queue] Bulk cancel failed", { error });
+      queryClient.setQueryData(queryKeys.queue.items(), context?.previousItems);
+      toastService.errorMessage("Failed to cancel queue items");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.queue.items() });
+    },
+  });
+
+  // Pause mutation: pending items wait in place until resumed
+  const pauseMutation = useMutation({
+    mutationFn: () => queueAPI.pauseQueue(),
+    onMutate: async () => ({
+      previousItems: await patchQueueCache(queryClient, (items) =>
+        setQueueItemsStatus(items, "pending", "paused")
+      ),
+    }),
+    onSuccess: (data) => {
+      logger.info(`[Queue] Paused ${data.queue_item_ids.length} items`);
+      toastService.info(`Queue paused · ${plural(data.queue_item_ids.length)} on hold`);
+    },
+    onError: (error, _variables, context) => {
+      logger.error("[Queue] Pause failed", { error });
+      queryClient.setQueryData(queryKeys.queue.items(), context?.previousItems);
+      toastService.errorMessage("Failed to pause the queue");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.queue.items() });
+    },
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: () => queueAPI.resumeQueue(),
+    onMutate: async () => ({
+      previousItems: await patchQueueCache(queryClient, (items) =>
+        setQueueItemsStatus(items, "paused", "pending")
+      ),
+    }),
+    onSuccess: (data) => {
+      logger.info(`[Queue] Resumed ${data.queue_item_ids.length} items`);
+      toastService.success(`Queue resumed · ${plural(data.queue_item_ids.length)} pending`);
+    },
+    onError: (error, _variables, context) => {
+      logger.error("[Queue] Resume failed", { error });
+      queryClient.setQueryData(queryKeys.queue.items(), context?.previousItems);
+      toastService.errorMessage("Failed to resume the queue");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.queue.items() });
+    },
+  });
+
+  // Reorder mutation: positions are reassigned in the given order
+  const reorderMutation = useMutation({
+    mutationFn: (ids: string[]) => queueAPI.reorderQueue({ queue_item_ids: ids }),
+    onMutate: async (ids) => ({
+      previousItems: await patchQueueCache(queryClient, (items) => reorderQueueItems(items, ids)),
+    }),
+    onError: (error, _ids, context) => {
+      logger.error("[Queue] Reorder failed", { error });
+      queryClient.setQueryData(queryKeys.queue.items(), context?.previousItems);
+      toastService.errorMessage("Failed to reorder the queue");
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.queue.items() });
+    },
+  });
+
   // Computed values from server data (single-pass optimization)
-  const { pendingCount, processingCount, completedCount, failedCount, currentItem } = useMemo(() => {
-    const counts = { pending: 0, processing: 0, completed: 0, failed: 0 };
+  const {
+    pendingCount,
+    pausedCount,
+    processingCount,
+    completedCount,
+    failedCount,
+    currentItem,
+  } = useMemo(() => {
+    const counts = { pending: 0, paused: 0, processing: 0, completed: 0, failed: 0 };
     let current: QueueItem | null = null;
 
     for (const item of queueItems) {
@@ -116,6 +341,7 @@ export function useQueueManager(): QueueManagerState {
 
     return {
       pendingCount: counts.pending,
+      pausedCount: counts.paused,
       processingCount: counts.processing,
       completedCount: counts.completed,
       failedCount: counts.failed,
@@ -130,27 +356,51 @@ export function useQueueManager(): QueueManagerState {
     queueItems,
     isLoading,
     pendingCount,
+    pausedCount,
     processingCount,
     completedCount,
     failedCount,
     currentItem,
 
-    submitBatch: async (items: Array<{ name: string; interest: string }>, template: string) => {
+    submitBatch: async (items: BatchItem[], template: string) => {
       if (!template) {
         toastService.errorMessage("Please set an email template first");
-        return;
+        throw new Error("Email template is required");
       }
 
-      const batchItems: BatchItem[] = items.map((item) => ({
-        recipient_name: item.name,
-        recipient_interest: item.interest,
-      }));
+      const response = await submitMutation.mutateAsync({ items, template });
+      return response ? "queued" : "outbox";
+    },
 
-      await submitMutation.mutateAsync({ items: batchItems, template });
+    regenerateEmail: async (request: RegenerateEmailRequest) => {
+      await regenerateMutation.mutateAsync(request);
     },
 
     cancelItem: async (id: string) => {
       await cancelMutation.mutateAsync(id);
     },
+
+    retryItems: async (ids: string[]) => {
+      if (ids.length === 0) return;
+      await retryMutation.mutateAsync(ids);
+    },
+
+    cancelItems: async (ids: string[]) => {
+      if (ids.length === 0) return;
+      await cancelItemsMutation.mutateAsync(ids);
+    },
+
+    pauseQueue: async () => {
+      await pauseMutation.mutateAsync();
+    },
+
+    resumeQueue: async () => {
+      await resumeMutation.mutateAsync();
+    },
+
+    reorderQueue: async (ids: string[]) => {
+      if (ids.length === 0) return;
+      await reorderMutation.mutateAsync(ids);
+    },
   };
 }
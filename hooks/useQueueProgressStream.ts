@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { queueAPI, type QueueItem, type QueueItemProgress } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+import { useAuthStore } from "@/stores/auth-store";
+import { createLogger } from "@/utils/logger";
+
+const logger = createLogger("QueueProgressStream");
+
+interface UseQueueProgressStreamOptions {
+  // Only hold the connection open while items are pending/processing
+  enabled: boolean;
+}
+
+/**
+ * Streams per-item step transitions into React Query.
+ *
+ * Each event is written to queryKeys.queue.progress(id), and the item's
+ * status and current_step are patched in queryKeys.queue.items(). The stream
+ * restarts when the access token changes, so an expired session recovers
+ * after Supabase refreshes it. Mount once (dashboard layout).
+ */
+export function useQueueProgressStream({ enabled }: UseQueueProgressStreamOptions): void {
+  const { user, supabaseReady } = useAuth();
+  const token = useAuthStore((state) => state.session?.access_token);
+  const queryClient = useQueryClient();
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!enabled || !userId || !supabaseReady || !token) return;
+
+    const controller = new AbortController();
+
+    void queueAPI.streamProgress(
+      ({ queue_item_id, status, current_step, step_status, step_timings }) => {
+        queryClient.setQueryData<QueueItemProgress>(queryKeys.queue.progress(queue_item_id), {
+          current_step,
+          step_status,
+          step_timings,
+        });
+
+        queryClient.setQueryData<QueueItem[]>(queryKeys.queue.items(), (items) =>
+          items?.map((item) =>
+            item.id === queue_item_id && (item.status !== status || item.current_step !== current_step)
+              ? { ...item, status, current_step }
+              : item
+          )
+        );
+      },
+      {
+        signal: controller.signal,
+        onError: (error, willReconnect) => {
+          logger.warn("Queue progress stream interrupted", { error: String(error), willReconnect });
+        },
+      }
+    );
+
+    return () => controller.abort();
+  }, [enabled, userId, supabaseReady, token, queryClient]);
+}
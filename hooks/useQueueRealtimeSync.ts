@@ -0,0 +1,55 @@
+"use client";
+
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import type { QueueItem } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+import { applyQueueRowChange } from "@/lib/queue-cache";
+import { subscribeToQueueChanges } from "@/lib/supabase/realtime";
+import { useSetQueueRealtimeStatus } from "@/stores/ui-store";
+
+/**
+ * Keeps the cached queue list current from Supabase Realtime row changes.
+ * Mount once (dashboard layout); useQueueManager only polls while the
+ * channel is not connected.
+ */
+export function useQueueRealtimeSync(): void {
+  const { user, supabaseReady } = useAuth();
+  const queryClient = useQueryClient();
+  const setStatus = useSetQueueRealtimeStatus();
+  const userId = user?.uid;
+
+  useEffect(() => {
+    if (!userId || !supabaseReady) return;
+
+    const queueKey = queryKeys.queue.items();
+
+    const unsubscribe = subscribeToQueueChanges(userId, {
+      onChange: (change) => {
+        const items = queryClient.getQueryData<QueueItem[]>(queueKey);
+        // Nothing cached yet; the initial fetch will include this row
+        if (!items) return;
+
+        const next = applyQueueRowChange(items, change);
+        if (next) {
+          queryClient.setQueryData(queueKey, next);
+        } else {
+          queryClient.invalidateQueries({ queryKey: queueKey });
+        }
+      },
+      onStatusChange: (status) => {
+        setStatus(status);
+        // Changes made before (re)joining were not delivered; resync once
+        if (status === "connected") {
+          queryClient.invalidateQueries({ queryKey: queueKey });
+        }
+      },
+    });
+
+    return () => {
+      unsubscribe();
+      setStatus("disconnected");
+    };
+  }, [userId, supabaseReady, queryClient, setStatus]);
+}
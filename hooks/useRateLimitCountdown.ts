@@ -0,0 +1,35 @@
+/**
+ * Rate Limit Countdown Hook
+ *
+ * Seconds left on a Retry-After pause for an endpoint's family, ticking down
+ * once a second, e.g. to disable a button with "Try again in 42s".
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { rateLimiter } from "@/lib/api";
+
+const secondsLeft = (endpoint: string) => Math.ceil(rateLimiter.getRemaining(endpoint) / 1000);
+
+/**
+ * @returns 0 when requests to the endpoint aren't paused
+ */
+export function useRateLimitCountdown(endpoint: string): number {
+  const [seconds, setSeconds] = useState(() => secondsLeft(endpoint));
+  const paused = seconds > 0;
+
+  useEffect(() => {
+    const update = () => setSeconds(secondsLeft(endpoint));
+    update();
+    return rateLimiter.subscribe(update);
+  }, [endpoint]);
+
+  useEffect(() => {
+    if (!paused) return;
+    const intervalId = setInterval(() => setSeconds(secondsLeft(endpoint)), 1000);
+    return () => clearInterval(intervalId);
+  }, [endpoint, paused]);
+
+  return seconds;
+}
@@ -0,0 +1,96 @@
+/**
+ * Saved Template Library Hook
+ *
+ * Named, user-authored templates with CRUD and default selection.
+ * AI-generated templates stay under queryKeys.templates.list().
+ */
+
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  templateAPI,
+  type SavedTemplate,
+  type CreateSavedTemplateRequest,
+  type UpdateSavedTemplateRequest,
+} from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+import { toastService } from "@/lib/toast-service";
+import logger from "@/utils/logger";
+
+export interface SavedTemplatesState {
+  savedTemplates: SavedTemplate[];
+  defaultTemplate: SavedTemplate | null;
+  isLoading: boolean;
+  isSaving: boolean;
+
+  createTemplate: (data: CreateSavedTemplateRequest) => Promise<SavedTemplate>;
+  updateTemplate: (id: string, data: UpdateSavedTemplateRequest) => Promise<SavedTemplate>;
+  deleteTemplate: (id: string) => Promise<void>;
+}
+
+export function useSavedTemplates(): SavedTemplatesState {
+  const { user, supabaseReady } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: savedTemplates = [], isLoading } = useQuery({
+    queryKey: queryKeys.templates.saved(),
+    queryFn: ({ signal }) => templateAPI.getSavedTemplates({ signal }),
+    enabled: !!user?.uid && supabaseReady,
+    staleTime: 30000,
+  });
+
+  const invalidateSaved = () =>
+    queryClient.invalidateQueries({ queryKey: queryKeys.templates.saved() });
+
+  const createMutation = useMutation({
+    mutationFn: (data: CreateSavedTemplateRequest) => templateAPI.createSavedTemplate(data),
+    onSuccess: (template) => {
+      logger.info("[Templates] Saved template created", { id: template.id });
+      toastService.success(`Saved "${template.name}"`);
+      invalidateSaved();
+    },
+    onError: (error) => {
+      logger.error("[Templates] Create failed", { error });
+      toastService.errorMessage("Failed to save template");
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateSavedTemplateRequest }) =>
+      templateAPI.updateSavedTemplate(id, data),
+    onSuccess: () => {
+      invalidateSaved();
+    },
+    onError: (error) => {
+      logger.error("[Templates] Update failed", { error });
+      toastService.errorMessage("Failed to update template");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => templateAPI.deleteSavedTemplate(id),
+    onSuccess: () => {
+      logger.info("[Templates] Saved template deleted");
+      invalidateSaved();
+    },
+    onError: (error) => {
+      logger.error("[Templates] Delete failed", { error });
+      toastService.errorMessage("Failed to delete template");
+    },
+  });
+
+  return {
+    savedTemplates,
+    defaultTemplate: savedTemplates.find((t) => t.is_default) ?? null,
+    isLoading,
+    isSaving: createMutation.isPending || updateMutation.isPending,
+
+    createTemplate: (data) => createMutation.mutateAsync(data),
+    updateTemplate: (id, data) => updateMutation.mutateAsync({ id, data }),
+    deleteTemplate: async (id) => {
+      await deleteMutation.mutateAsync(id);
+    },
+  };
+}
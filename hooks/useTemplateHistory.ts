@@ -0,0 +1,81 @@
+/**
+ * Template Version History Hook
+ *
+ * Lists snapshots of the profile email_template from the API, falling back
+ * to local IndexedDB snapshots when the versions endpoint is unavailable.
+ */
+
+"use client";
+
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { userAPI, AbortError, type TemplateVersion } from "@/lib/api";
+import { queryKeys } from "@/lib/query-keys";
+import {
+  getLocalTemplateVersions,
+  recordLocalTemplateVersion,
+} from "@/lib/template-history";
+import logger from "@/utils/logger";
+
+export type TemplateHistorySource = "server" | "local";
+
+interface TemplateHistoryResult {
+  versions: TemplateVersion[];
+  source: TemplateHistorySource;
+}
+
+export interface TemplateHistoryState {
+  versions: TemplateVersion[];
+  source: TemplateHistorySource;
+  isLoading: boolean;
+
+  /** Snapshot text locally before saving it to the profile */
+  recordSnapshot: (templateText: string) => Promise<void>;
+  /** Refetch after a save so the newest version shows up */
+  refreshHistory: () => void;
+}
+
+export function useTemplateHistory(enabled: boolean = true): TemplateHistoryState {
+  const { user, supabaseReady } = useAuth();
+  const queryClient = useQueryClient();
+  const userId = user?.uid;
+
+  const { data, isLoading } = useQuery({
+    queryKey: queryKeys.templates.history(),
+    queryFn: async ({ signal }): Promise<TemplateHistoryResult> => {
+      try {
+        const versions = await userAPI.getTemplateVersions(50, { signal, retry: false });
+        return { versions, source: "server" };
+      } catch (error) {
+        if (error instanceof AbortError) throw error;
+
+        logger.warn("[TemplateHistory] Versions endpoint unavailable, using local history", { error });
+        const versions = await getLocalTemplateVersions(userId!);
+        return { versions, source: "local" };
+      }
+    },
+    enabled: enabled && !!userId && supabaseReady,
+    staleTime: 30000,
+  });
+
+  const recordSnapshot = useCallback(
+    async (templateText: string) => {
+      if (!userId) return;
+      await recordLocalTemplateVersion(userId, templateText);
+    },
+    [userId]
+  );
+
+  const refreshHistory = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.templates.history() });
+  }, [queryClient]);
+
+  return {
+    versions: data?.versions ?? [],
+    source: data?.source ?? "server",
+    isLoading,
+    recordSnapshot,
+    refreshHistory,
+  };
+}
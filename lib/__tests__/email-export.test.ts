@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { EmailResponse } from "../schemas";
+import { buildExportFile } from "../email-export";
+
+const email = (overrides: Partial<EmailResponse>): EmailResponse => ({
+  id: "00000000-0000-4000-8000-000000000001",
+  user_id: "00000000-0000-4000-8000-000000000002",
+  recipient_name: "Dr. Ada Lovelace",
+  recipient_interest: "computing",
+  email_message: "Dear Dr. Lovelace,",
+  subject: null,
+  template_type: "research",
+  metadata: null,
+  is_confident: true,
+  displayed: true,
+  created_at: "2025-01-31T12:00:00Z",
+  ...overrides,
+});
+
+const exportCsv = async (emails: EmailResponse[], format: "csv" | "merge" = "csv") => {
+  const { blob } = buildExportFile(emails, {
+    format,
+    columns: ["recipient_name", "subject", "email_message"],
+  });
+  // Drop the BOM and split into lines
+  return (await blob.text()).replace(/^\uFEFF/, "").trimEnd().split("\r\n");
+};
+
+describe("CSV export", () => {
+  it("quotes fields containing commas, quotes and newlines", async () => {
+    const [, row] = await exportCsv([
+      email({ recipient_name: 'Ada "the Countess", Lovelace', email_message: "Line 1\nLine 2" }),
+    ]);
+
+    expect(row).toBe('"Ada ""the Countess"", Lovelace",,"Line 1\nLine 2"');
+  });
+
+  it("prefixes cells that would run as a spreadsheet formula", async () => {
+    const [, ...rows] = await exportCsv([
+      email({ recipient_name: "=HYPERLINK(\"http://x\")", subject: "+1 idea", email_message: "-2" }),
+      email({ recipient_name: "@SUM(A1)", subject: "\tTab", email_message: "\rReturn" }),
+    ]);
+
+    expect(rows).toEqual([
+      `"'=HYPERLINK(""http://x"")",'+1 idea,'-2`,
+      `'@SUM(A1),'\tTab,"'\rReturn"`,
+    ]);
+  });
+
+  it("prefixes formula cells in the mail-merge export", async () => {
+    const [header, row] = await exportCsv(
+      [email({ subject: "=cmd|' /C calc'!A0", email_message: "Hi" })],
+      "merge"
+    );
+
+    expect(header).toBe("To,Subject,Body");
+    expect(row).toBe(",'=cmd|' /C calc'!A0,Hi");
+  });
+
+  it("leaves other text untouched", async () => {
+    const [, row] = await exportCsv([email({ subject: "Re: 2 + 2 = 4", email_message: "a-b" })]);
+
+    expect(row).toBe("Dr. Ada Lovelace,Re: 2 + 2 = 4,a-b");
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { buildImportedRows, guessColumnMapping, parseRecipientFile } from "../recipient-import";
+
+const csvFile = (text: string) => new File([text], "recipients.csv", { type: "text/csv" });
+
+describe("parseRecipientFile", () => {
+  it("numbers rows as the spreadsheet does, across blank lines", async () => {
+    const sheet = await parseRecipientFile(
+      csvFile("Name,Interest\nDr. Ada Lovelace,computing\n\n,\nX,robotics\nDr. Alan Turing,\n")
+    );
+
+    const rows = buildImportedRows(sheet, guessColumnMapping(sheet.headers));
+
+    expect(rows.map((row) => row.rowNumber)).toEqual([2, 5, 6]);
+    expect(rows.map((row) => row.errors.length > 0)).toEqual([false, true, true]);
+  });
+
+  it("counts rows above the used range of a workbook", async () => {
+    const worksheet = XLSX.utils.aoa_to_sheet([]);
+    XLSX.utils.sheet_add_aoa(
+      worksheet,
+      [["Name", "Interest"], ["Dr. Ada Lovelace", "computing"], [], ["X", "robotics"]],
+      { origin: "A3" }
+    );
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, "Recipients");
+    const buffer = XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+
+    const sheet = await parseRecipientFile(new File([buffer], "recipients.xlsx"));
+
+    expect(sheet.rowNumbers).toEqual([4, 6]);
+  });
+
+  it("gives blank and duplicate headers fallbacks that don't collide", async () => {
+    const sheet = await parseRecipientFile(csvFile(",Column 1,Name,Name,Column 4\na,b,c,d,e\n"));
+
+    expect(sheet.headers).toEqual(["Column 1 (2)", "Column 1", "Name", "Column 4 (2)", "Column 4"]);
+    expect(sheet.rows[0]).toEqual({
+      "Column 1 (2)": "a",
+      "Column 1": "b",
+      Name: "c",
+      "Column 4 (2)": "d",
+      "Column 4": "e",
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import type { BatchItem } from "../schemas";
+import { fillInputVariables, getSubjectTemplateIssue } from "../template-engine";
+
+const item: BatchItem = { recipient_name: "Dr. Ada Lovelace", recipient_interest: "computing" };
+
+describe("getSubjectTemplateIssue", () => {
+  it("accepts text and input placeholders", () => {
+    expect(getSubjectTemplateIssue("Question for {{professor_name}}")).toBeNull();
+    expect(getSubjectTemplateIssue("Research question")).toBeNull();
+  });
+
+  it("rejects researched and malformed placeholders", () => {
+    expect(getSubjectTemplateIssue("On {{research_paper}}")).toMatch(/can't be used in a subject/);
+    expect(getSubjectTemplateIssue("Hi {{professor name}}")).toMatch(/Invalid placeholder/);
+  });
+
+  it("rejects names inherited from Object.prototype", () => {
+    for (const name of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+      expect(getSubjectTemplateIssue(`Hi {{${name}}}`)).toMatch(/can't be used in a subject/);
+    }
+  });
+});
+
+describe("fillInputVariables", () => {
+  it("fills input placeholders and keeps researched ones raw", () => {
+    expect(fillInputVariables("Dear {{professor_name}}, re {{research_paper}}", item)).toBe(
+      "Dear Dr. Ada Lovelace, re {{research_paper}}"
+    );
+  });
+
+  it("leaves names inherited from Object.prototype untouched", () => {
+    expect(fillInputVariables("{{constructor}} {{toString}} {{__proto__}}", item)).toBe(
+      "{{constructor}} {{toString}} {{__proto__}}"
+    );
+  });
+});
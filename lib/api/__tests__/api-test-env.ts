@@ -0,0 +1,18 @@
+/**
+ * Point the API modules at a local test server
+ *
+ * API_BASE_URL is read when config/api is imported, so this resets the module
+ * registry; import the modules under test afterwards. Also signs in with a
+ * fake session so authenticated requests get a bearer token.
+ */
+
+import { vi } from "vitest";
+import type { Session } from "@supabase/supabase-js";
+
+export async function setApiBaseUrl(baseUrl: string): Promise<void> {
+  vi.resetModules();
+  vi.stubEnv("NEXT_PUBLIC_API_BASE_URL", baseUrl);
+
+  const { useAuthStore } = await import("@/stores/auth-store");
+  useAuthStore.getState().setSession({ access_token: "test-token" } as Session);
+}
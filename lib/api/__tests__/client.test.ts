@@ -0,0 +1,143 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setApiBaseUrl } from "./api-test-env";
+
+type Handler = (request: IncomingMessage, response: ServerResponse, attempt: number) => void;
+
+// Local API that records each request's Idempotency-Key and applies each key once
+async function startMockApi(handler: Handler) {
+  const keys: (string | undefined)[] = [];
+  const submissions = new Set<string>();
+
+  const server: Server = createServer((request, response) => {
+    const key = request.headers["idempotency-key"] as string | undefined;
+    keys.push(key);
+    if (request.method !== "GET" && key) submissions.add(key);
+    handler(request, response, keys.length);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    keys,
+    submissions,
+    close: () => {
+      server.closeAllConnections();
+      return new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+const respond = (response: ServerResponse, body: unknown) => {
+  response.writeHead(200, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+};
+
+let api: Awaited<ReturnType<typeof startMockApi>>;
+
+const start = async (handler: Handler = (_request, response) => respond(response, {})) => {
+  api = await startMockApi(handler);
+  await setApiBaseUrl(api.url);
+  const { ApiClient } = await import("../client");
+  return new ApiClient();
+};
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await api?.close();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("ApiClient idempotency keys", () => {
+  it("resends a timed-out POST with the same key, so the server applies it once", async () => {
+    const client = await start((_request, response, attempt) => {
+      // The first submission is recorded, but answered after the client gives up
+      if (attempt === 1) {
+        setTimeout(() => respond(response, { queue_item_ids: ["late"] }), 300);
+      } else {
+        respond(response, { queue_item_ids: ["a"] });
+      }
+    });
+
+    const result = await client.request("/api/queue/batch", {
+      method: "POST",
+      body: JSON.stringify({ items: [] }),
+      timeout: 100,
+      retry: { maxAttempts: 2, baseDelay: 10, jitter: false },
+    });
+
+    expect(result).toEqual({ queue_item_ids: ["a"] });
+    expect(api.keys).toHaveLength(2);
+    expect(api.keys[0]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(api.keys[1]).toBe(api.keys[0]);
+    expect(api.submissions.size).toBe(1);
+  });
+
+  it("uses a new key for each call", async () => {
+    const client = await start();
+
+    await client.request("/api/email/1", { method: "PATCH", body: "{}" });
+    await client.request("/api/email/1", { method: "PATCH", body: "{}" });
+
+    expect(api.keys[0]).not.toBe(api.keys[1]);
+    expect(api.submissions.size).toBe(2);
+  });
+
+  it("sends a caller-provided key", async () => {
+    const client = await start();
+
+    await client.request("/api/queue/batch", { method: "POST", body: "{}", idempotencyKey: "outbox-1" });
+
+    expect(api.keys).toEqual(["outbox-1"]);
+  });
+
+  it("sends no key when disabled or for GET requests", async () => {
+    const client = await start();
+
+    await client.request("/api/queue/batch", { method: "POST", body: "{}", idempotencyKey: false });
+    await client.request("/api/queue/");
+
+    expect(api.keys).toEqual([undefined, undefined]);
+  });
+});
+
+describe("ApiClient onError interceptors", () => {
+  it("see a response body that isn't JSON", async () => {
+    const client = await start((_request, response) => {
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.end("<html>");
+    });
+    const { ApiError } = await import("../errors");
+    const replacement = new ApiError("unreadable", 0, "UNREADABLE");
+    const onError = vi.fn(() => replacement);
+    client.use({ name: "test", onError });
+
+    await expect(client.request("/api/queue/", { retry: false })).rejects.toBe(replacement);
+    expect(onError).toHaveBeenCalledWith(
+      expect.any(ApiError),
+      expect.objectContaining({ endpoint: "/api/queue/" })
+    );
+  });
+
+  it("see an abort while waiting out a rate-limit pause", async () => {
+    const client = await start();
+    const { AbortError } = await import("../errors");
+    const { rateLimiter } = await import("../rate-limit");
+    const onError = vi.fn();
+    client.use({ name: "test", onError });
+
+    rateLimiter.pause("/api/queue/batch", 30);
+    const controller = new AbortController();
+    const result = client.request("/api/queue/status", { signal: controller.signal, retry: false });
+    controller.abort();
+
+    await expect(result).rejects.toBeInstanceOf(AbortError);
+    expect(onError).toHaveBeenCalledWith(expect.any(AbortError), expect.anything());
+    expect(api.keys).toHaveLength(0);
+  });
+});
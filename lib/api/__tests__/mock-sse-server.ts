@@ -0,0 +1,100 @@
+/**
+ * Mock SSE Server
+ * Local HTTP server that speaks text/event-stream, for testing streamEvents
+ * against real fetch streaming, reconnects and Last-Event-ID replay
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+export interface MockSseConnection {
+  request: IncomingMessage;
+  // Last-Event-ID sent by the client, if any
+  lastEventId: string | undefined;
+  send: (event: { event?: string; data: string; id?: string }) => void;
+  // Write raw bytes, e.g. comments or oddly split lines
+  write: (raw: string) => void;
+  // End the stream (the client should reconnect)
+  close: () => void;
+}
+
+export interface MockSseServer {
+  // Base URL, e.g. "http://127.0.0.1:54321"
+  url: string;
+  // Every connection attempt, including rejected ones
+  requests: IncomingMessage[];
+  // Resolves with the next accepted stream
+  nextConnection: () => Promise<MockSseConnection>;
+  // Answer the next connection attempt with an error status instead
+  rejectNext: (status: number, body?: string) => void;
+  close: () => Promise<void>;
+}
+
+export async function startMockSseServer(): Promise<MockSseServer> {
+  const requests: IncomingMessage[] = [];
+  const rejections: { status: number; body: string }[] = [];
+  const accepted: MockSseConnection[] = [];
+  const waiting: ((connection: MockSseConnection) => void)[] = [];
+  const open = new Set<ServerResponse>();
+
+  const server = createServer((request, response) => {
+    requests.push(request);
+
+    const rejection = rejections.shift();
+    if (rejection) {
+      response.writeHead(rejection.status, { "Content-Type": "application/json" });
+      response.end(rejection.body);
+      return;
+    }
+
+    response.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    response.flushHeaders();
+    open.add(response);
+    response.on("close", () => open.delete(response));
+
+    const header = request.headers["last-event-id"];
+    const connection: MockSseConnection = {
+      request,
+      lastEventId: Array.isArray(header) ? header[0] : header,
+      send: ({ event, data, id }) => {
+        let frame = "";
+        if (id !== undefined) frame += `id: ${id}\n`;
+        if (event) frame += `event: ${event}\n`;
+        for (const line of data.split("\n")) frame += `data: ${line}\n`;
+        response.write(`${frame}\n`);
+      },
+      write: (raw) => response.write(raw),
+      close: () => response.end(),
+    };
+
+    const waiter = waiting.shift();
+    if (waiter) waiter(connection);
+    else accepted.push(connection);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    nextConnection: () => {
+      const connection = accepted.shift();
+      if (connection) return Promise.resolve(connection);
+      return new Promise((resolve) => waiting.push(resolve));
+    },
+    rejectNext: (status, body = "{}") => {
+      rejections.push({ status, body });
+    },
+    close: () => {
+      for (const response of open) response.end();
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AbortError } from "../errors";
+import { getEndpointFamily, parseRetryAfter, RateLimiter } from "../rate-limit";
+
+const NOW = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+
+describe("parseRetryAfter", () => {
+  it("reads delay-seconds", () => {
+    expect(parseRetryAfter("42", NOW)).toBe(42);
+    expect(parseRetryAfter(" 0 ", NOW)).toBe(0);
+  });
+
+  it("reads an HTTP-date as seconds from now, rounded up", () => {
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:42 GMT", NOW)).toBe(42);
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:42 GMT", NOW + 500)).toBe(42);
+    expect(parseRetryAfter("Wednesday, 21-Oct-15 07:29:00 GMT", NOW)).toBe(60);
+  });
+
+  it("treats a date in the past as no wait", () => {
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:20:00 GMT", NOW)).toBe(0);
+  });
+
+  it("returns null for a missing or unparseable header", () => {
+    expect(parseRetryAfter(null, NOW)).toBeNull();
+    expect(parseRetryAfter("", NOW)).toBeNull();
+    expect(parseRetryAfter("soon", NOW)).toBeNull();
+    expect(parseRetryAfter("-5", NOW)).toBeNull();
+    expect(parseRetryAfter("12.5", NOW)).toBeNull();
+  });
+});
+
+describe("getEndpointFamily", () => {
+  it("keeps the first two path segments", () => {
+    expect(getEndpointFamily("/api/queue/batch")).toBe("/api/queue");
+    expect(getEndpointFamily("/api/email/123?fields=a/b")).toBe("/api/email");
+    expect(getEndpointFamily("/health")).toBe("/health");
+  });
+});
+
+describe("RateLimiter", () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    limiter = new RateLimiter();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Settles the promise state so it can be checked without awaiting
+  const track = (promise: Promise<void>) => {
+    const state = { settled: false, error: undefined as unknown };
+    promise.then(
+      () => (state.settled = true),
+      (error) => {
+        state.settled = true;
+        state.error = error;
+      }
+    );
+    return state;
+  };
+
+  it("pauses every endpoint in the family until Retry-After passes", async () => {
+    limiter.pause("/api/queue/batch", 42);
+    expect(limiter.getRemaining("/api/queue/cancel")).toBe(42000);
+
+    const waiting = track(limiter.wait("/api/queue/items"));
+    await vi.advanceTimersByTimeAsync(41999);
+    expect(waiting.settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(waiting.settled).toBe(true);
+    expect(limiter.getRemaining("/api/queue/batch")).toBe(0);
+  });
+
+  it("doesn't block other families", async () => {
+    limiter.pause("/api/queue/batch", 60);
+
+    const waiting = track(limiter.wait("/api/email/1"));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(waiting.settled).toBe(true);
+    expect(limiter.getRemaining("/api/email/1")).toBe(0);
+  });
+
+  it("keeps waiting when the pause is extended", async () => {
+    limiter.pause("/api/queue/batch", 10);
+    const waiting = track(limiter.wait("/api/queue/batch"));
+
+    await vi.advanceTimersByTimeAsync(5000);
+    limiter.pause("/api/queue/retry", 20);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(waiting.settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(15000);
+    expect(waiting.settled).toBe(true);
+  });
+
+  it("keeps a longer pause over a shorter one", () => {
+    const listener = vi.fn();
+    limiter.subscribe(listener);
+
+    limiter.pause("/api/queue/batch", 30);
+    limiter.pause("/api/queue/batch", 5);
+
+    expect(limiter.getRemaining("/api/queue/batch")).toBe(30000);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects with AbortError when aborted while waiting", async () => {
+    limiter.pause("/api/queue/batch", 30);
+    const controller = new AbortController();
+    const waiting = track(limiter.wait("/api/queue/batch", controller.signal));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(waiting.error).toBeInstanceOf(AbortError);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("rejects at once for an already aborted signal", async () => {
+    limiter.pause("/api/queue/batch", 30);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(limiter.wait("/api/queue/batch", controller.signal)).rejects.toBeInstanceOf(AbortError);
+  });
+});
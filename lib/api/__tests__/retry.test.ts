@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimitError, ServerError } from "../errors";
+import { withRetry } from "../retry";
+
+describe("withRetry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Throws the given errors in order, then resolves with "ok"
+  const failingThen = (errors: unknown[]) =>
+    vi.fn(async () => {
+      const error = errors.shift();
+      if (error) throw error;
+      return "ok";
+    });
+
+  it("waits for Retry-After instead of the backoff delay", async () => {
+    const fn = failingThen([new RateLimitError(30)]);
+    const onRetry = vi.fn();
+    const result = withRetry(fn, { maxAttempts: 2, baseDelay: 1000, maxDelay: 2000, onRetry });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onRetry).toHaveBeenCalledWith(expect.any(RateLimitError), 1, 30000);
+
+    await vi.advanceTimersByTimeAsync(29999);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("uses backoff for a 429 without Retry-After", async () => {
+    const fn = failingThen([new RateLimitError()]);
+    const onRetry = vi.fn();
+    const result = withRetry(fn, { maxAttempts: 2, baseDelay: 1000, jitter: false, onRetry });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toBe("ok");
+    expect(onRetry).toHaveBeenCalledWith(expect.any(RateLimitError), 1, 1000);
+  });
+
+  it("doesn't retry when Retry-After exceeds maxRetryAfter", async () => {
+    const error = new RateLimitError(120);
+    const fn = failingThen([error]);
+
+    await expect(withRetry(fn, { maxAttempts: 3, maxRetryAfter: 60000 })).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries a Retry-After of exactly maxRetryAfter", async () => {
+    const fn = failingThen([new RateLimitError(5)]);
+    const result = withRetry(fn, { maxAttempts: 2, maxRetryAfter: 5000 });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("backs off exponentially for other retryable errors", async () => {
+    const fn = failingThen([new ServerError("down"), new ServerError("down")]);
+    const onRetry = vi.fn();
+    const result = withRetry(fn, { maxAttempts: 3, baseDelay: 100, jitter: false, onRetry });
+
+    await vi.advanceTimersByTimeAsync(300);
+    await expect(result).resolves.toBe("ok");
+    expect(onRetry.mock.calls.map(([, , delayMs]) => delayMs)).toEqual([100, 200]);
+  });
+});
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createEventStreamParser, type ServerSentEvent } from "../sse";
+import { setApiBaseUrl } from "./api-test-env";
+import { startMockSseServer, type MockSseServer } from "./mock-sse-server";
+
+function parse(chunks: string[]): ServerSentEvent[] {
+  const events: ServerSentEvent[] = [];
+  const feed = createEventStreamParser((event) => events.push(event));
+  for (const chunk of chunks) feed(chunk);
+  return events;
+}
+
+describe("createEventStreamParser", () => {
+  it("dispatches an event on a blank line", () => {
+    expect(parse(["event: progress\ndata: {\"a\":1}\n\n"])).toEqual([
+      { event: "progress", data: '{"a":1}', id: undefined },
+    ]);
+  });
+
+  it("defaults the event type to message", () => {
+    expect(parse(["data: hi\n\n"])).toEqual([{ event: "message", data: "hi", id: undefined }]);
+  });
+
+  it("handles CRLF split across chunks", () => {
+    expect(parse(["data: one\r", "\n\r", "\ndata: two\r\n\r\n"])).toEqual([
+      { event: "message", data: "one", id: undefined },
+      { event: "message", data: "two", id: undefined },
+    ]);
+  });
+
+  it("handles CR-only line endings", () => {
+    expect(parse(["data: a\r\rdata: b\r\r", "data: c\r"]).map((event) => event.data)).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("holds a trailing CR until the next chunk shows whether LF follows", () => {
+    const events: ServerSentEvent[] = [];
+    const feed = createEventStreamParser((event) => events.push(event));
+    feed("data: a\r\r");
+    expect(events).toHaveLength(0);
+    feed("\n");
+    expect(events.map((event) => event.data)).toEqual(["a"]);
+  });
+
+  it("joins multi-line data with newlines", () => {
+    expect(parse(["data: first\ndata: second\ndata\n\n"])[0].data).toBe("first\nsecond\n");
+  });
+
+  it("joins lines split mid-field across chunks", () => {
+    expect(parse(["da", "ta: hel", "lo\n", "\n"])[0].data).toBe("hello");
+  });
+
+  it("ignores comments and events without data", () => {
+    expect(parse([": keep-alive\n\nevent: ping\n\n: another\ndata: x\n\n"])).toEqual([
+      { event: "message", data: "x", id: undefined },
+    ]);
+  });
+
+  it("keeps the last event ID for later events", () => {
+    const events = parse(["id: 7\ndata: a\n\ndata: b\n\n"]);
+    expect(events.map((event) => event.id)).toEqual(["7", "7"]);
+  });
+
+  it("ignores an id containing NUL", () => {
+    const events = parse(["id: 3\ndata: a\n\nid: 4\0x\ndata: b\n\n"]);
+    expect(events.map((event) => event.id)).toEqual(["3", "3"]);
+  });
+
+  it("strips only one leading space from values", () => {
+    expect(parse(["data:  indented\n\n"])[0].data).toBe(" indented");
+  });
+});
+
+describe("streamEvents", () => {
+  let server: MockSseServer;
+  let controller: AbortController;
+
+  beforeEach(async () => {
+    server = await startMockSseServer();
+    await setApiBaseUrl(server.url);
+    controller = new AbortController();
+  });
+
+  afterEach(async () => {
+    controller.abort();
+    await server.close();
+    vi.unstubAllEnvs();
+  });
+
+  const retry = { baseDelay: 10, maxDelay: 20, jitter: false };
+
+  it("delivers events with auth and Accept headers", async () => {
+    const { streamEvents } = await import("../sse");
+    const events: ServerSentEvent[] = [];
+    const received = new Promise<void>((resolve) => {
+      void streamEvents("/api/queue/events", {
+        signal: controller.signal,
+        retry,
+        onEvent: (event) => {
+          events.push(event);
+          if (events.length === 2) resolve();
+        },
+      });
+    });
+
+    const connection = await server.nextConnection();
+    expect(connection.request.headers.authorization).toBe("Bearer test-token");
+    expect(connection.request.headers.accept).toBe("text/event-stream");
+
+    connection.write(": connected\n\n");
+    connection.send({ event: "progress", data: "1", id: "a" });
+    connection.send({ event: "progress", data: "2", id: "b" });
+    await received;
+
+    expect(events.map((event) => [event.event, event.data, event.id])).toEqual([
+      ["progress", "1", "a"],
+      ["progress", "2", "b"],
+    ]);
+  });
+
+  it("reconnects after the stream drops and replays from Last-Event-ID", async () => {
+    const { streamEvents } = await import("../sse");
+    const data: string[] = [];
+    const onError = vi.fn();
+    void streamEvents("/api/queue/events", {
+      signal: controller.signal,
+      retry,
+      onEvent: (event) => data.push(event.data),
+      onError,
+    });
+
+    const first = await server.nextConnection();
+    expect(first.lastEventId).toBeUndefined();
+    first.send({ data: "1", id: "41" });
+    first.send({ data: "2", id: "42" });
+    await vi.waitFor(() => expect(data).toEqual(["1", "2"]));
+    first.close();
+
+    const second = await server.nextConnection();
+    expect(second.lastEventId).toBe("42");
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), true);
+
+    second.send({ data: "3", id: "43" });
+    await vi.waitFor(() => expect(data).toEqual(["1", "2", "3"]));
+  });
+
+  it("retries failed connection attempts and reports them", async () => {
+    const { streamEvents } = await import("../sse");
+    const onOpen = vi.fn();
+    const onError = vi.fn();
+    server.rejectNext(503);
+    server.rejectNext(502);
+
+    void streamEvents("/api/queue/events", {
+      signal: controller.signal,
+      retry,
+      onEvent: () => {},
+      onOpen,
+      onError,
+    });
+
+    await server.nextConnection();
+    await vi.waitFor(() => expect(onOpen).toHaveBeenCalledTimes(1));
+    expect(server.requests).toHaveLength(3);
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls.every(([, willReconnect]) => willReconnect)).toBe(true);
+  });
+
+  it("stops on an error that isn't retryable", async () => {
+    const { streamEvents } = await import("../sse");
+    const { AuthenticationError } = await import("../errors");
+    const onError = vi.fn();
+    server.rejectNext(401, JSON.stringify({ detail: "expired" }));
+
+    await streamEvents("/api/queue/events", {
+      signal: controller.signal,
+      retry,
+      onEvent: () => {},
+      onError,
+    });
+
+    expect(server.requests).toHaveLength(1);
+    expect(onError).toHaveBeenCalledWith(expect.any(AuthenticationError), false);
+  });
+
+  it("resolves without reconnecting once aborted", async () => {
+    const { streamEvents } = await import("../sse");
+    const done = streamEvents("/api/queue/events", {
+      signal: controller.signal,
+      retry,
+      onEvent: () => {},
+    });
+
+    await server.nextConnection();
+    controller.abort();
+    await done;
+
+    expect(server.requests).toHaveLength(1);
+  });
+});
@@ -1,5 +1,6 @@
-import { API_BASE_URL, SHOW_SHUTDOWN_NOTICE } from "@/config/api";
+import { API_BASE_URL } from "@/config/api";
 import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
 import { createLogger } from "@/utils/logger";
 import {
   ApiError,
@@ -9,12 +10,16 @@ import {
   ServerError,
   AbortError,
   RateLimitError,
-  ServiceShutdownError,
 } from "./errors";
 import { withRetry, fetchWithTimeout } from "./retry";
+import { parseRetryAfter, rateLimiter } from "./rate-limit";
 import { RequestCache } from "./deduplication";
+import {
+  DEFAULT_INTERCEPTORS,
+  type ApiInterceptor,
+  type ApiRequestContext,
+} from "./interceptors";
 import type { ApiRequestOptions } from "./types";
-import { useAuthStore } from "@/stores/auth-store";
 import { AUTH_ERRORS, API_ERRORS } from "@/constants/error-messages";
 
 const logger = createLogger('ApiClient');
@@ -25,11 +30,14 @@ const logger = createLogger('ApiClient');
  * Features:
  * - Request cancellation via AbortController
  * - Retry logic with exponential backoff
+ * - Retry-After pauses shared by every request to the same endpoint family
  * - Request deduplication
+ * - Idempotency keys on mutating requests, shared by their retries
  * - Custom error classes for granular error handling
  * - Runtime validation with Zod
  * - Configurable timeouts
  * - JWT authentication via Supabase
+ * - Interceptors for auth, request IDs and shutdown (see ./interceptors.ts)
  *
  * @example
  * // Basic usage
@@ -53,45 +61,26 @@ const logger = createLogger('ApiClient');
  */
 export class ApiClient {
   private requestCache: RequestCache;
+  private interceptors: ApiInterceptor[];
 
-  constructor() {
+  constructor(interceptors: ApiInterceptor[] = DEFAULT_INTERCEPTORS) {
     this.requestCache = new RequestCache(100); // 100ms TTL for deduplication
+    this.interceptors = [...interceptors];
   }
 
   /**
-   * Get authentication token from Zustand store (SYNCHRONOUS)
-   *
-   * Returns the current access token from the cached session in Zustand.
-   * No async calls, no network requests - instant token access.
+   * Add an interceptor after the ones already registered
    *
-   * Supabase handles ALL token refresh logic via autoRefreshToken.
-   * This method just retrieves the current token snapshot.
-   *
-   * @throws {AuthenticationError} If no valid session exists
-   */
-  getAuthToken(): string {
-    const token = useAuthStore.getState().getToken();
-
-    if (!token) {
-      logger.error(AUTH_ERRORS.NO_TOKEN.dev);
-      throw new AuthenticationError(AUTH_ERRORS.NO_TOKEN.dev);
-    }
-
-    return token;
-  }
-
-  /**
-   * Get request ID from global window object (set by middleware response header)
+   * @returns Function that removes it again
    */
-  private getRequestId(): string | undefined {
-    if (typeof window !== 'undefined') {
-      // Check if request ID was stored from previous response
-      return window.__REQUEST_ID__;
-    }
-    return undefined;
+  use(interceptor: ApiInterceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter((other) => other !== interceptor);
+    };
   }
 
-  // Build request headers with authentication (SYNCHRONOUS)
+  // Build request headers; auth and request IDs are added by interceptors
   private buildHeaders(options: ApiRequestOptions): Headers {
     const headers = new Headers(options.headers);
 
@@ -100,38 +89,83 @@ export class ApiClient {
       headers.set("Content-Type", "application/json");
     }
 
-    // Add Authorization header if not skipping auth
-    if (!options.skipAuth) {
-      const token = this.getAuthToken();
-      headers.set("Authorization", `Bearer ${token}`);
-    }
-
-    // Propagate request ID for distributed tracing (if available)
-    const requestId = this.getRequestId();
-    if (requestId) {
-      headers.set('X-Request-ID', requestId);
+    if (options.idempotencyKey) {
+      headers.set("Idempotency-Key", options.idempotencyKey);
     }
 
     return headers;
   }
 
   /**
-   * Handle HTTP response and convert to appropriate error types
+   * Run one request attempt through the interceptors
    *
-   * @throws {RateLimitError} For 429 responses
+   * Waits out any Retry-After pause first. Failures at any step, including
+   * the wait and reading the body, go through the onError interceptors.
+   *
+   * @param fetcher - Sends the request with the final headers
+   * @param read - Reads the successful response, e.g. parses JSON
+   * @throws {ApiError} Mapped failure, after onError interceptors
+   */
+  private async send<T>(
+    endpoint: string,
+    options: ApiRequestOptions,
+    fetcher: (headers: Headers) => Promise<Response>,
+    read: (response: Response) => T | Promise<T>
+  ): Promise<T> {
+    const context: ApiRequestContext = {
+      endpoint,
+      options,
+      headers: this.buildHeaders(options),
+    };
+
+    try {
+      // Wait out a Retry-After pause on this endpoint family
+      await rateLimiter.wait(endpoint, options.signal);
+
+      let response: Response | undefined;
+      for (const interceptor of this.interceptors) {
+        response = (await interceptor.onRequest?.(context)) ?? undefined;
+        if (response) break;
+      }
+
+      response ??= await fetcher(context.headers);
+
+      for (const interceptor of this.interceptors) {
+        response = (await interceptor.onResponse?.(response, context)) ?? response;
+      }
+
+      if (!response.ok) {
+        // Always throws for non-OK responses
+        await this.handleResponse(response, endpoint);
+      }
+      return await read(response);
+    } catch (error) {
+      let apiError = this.toApiError(error);
+      for (const interceptor of this.interceptors) {
+        apiError = (await interceptor.onError?.(apiError, context)) ?? apiError;
+      }
+      throw apiError;
+    }
+  }
+
+  /**
+   * Convert a non-OK HTTP response to the appropriate error type
+   *
+   * @throws {RateLimitError} For 429 responses (and pauses the endpoint's family)
    * @throws {AuthenticationError} For 401/403 responses
    * @throws {ValidationError} For 400 responses
    * @throws {ServerError} For 500-599 responses
    * @throws {ApiError} For other non-OK responses
    */
-  private async handleResponse<T>(response: Response): Promise<T> {
+  private async handleResponse(response: Response, endpoint: string): Promise<void> {
     // Handle rate limiting
     if (response.status === 429) {
-      const retryAfter = parseInt(
-        response.headers.get("Retry-After") || "60",
-        10
-      );
-      throw new RateLimitError(retryAfter);
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+      // Without Retry-After it's a quota (e.g. the template limit), not a pause
+      if (retryAfter !== null) {
+        rateLimiter.pause(endpoint, retryAfter);
+      }
+      throw new RateLimitError(retryAfter ?? undefined);
     }
 
     // Handle authentication errors
@@ -193,9 +227,28 @@ export class ApiClient {
         response.status
       );
     }
+  }
+
+  // Convert native fetch errors to our custom error types
+  private toApiError(error: unknown): ApiError {
+    if (error instanceof TypeError && error.message.includes("fetch")) {
+      return new NetworkError(API_ERRORS.NETWORK.dev);
+    }
 
-    // Parse successful response
-    return response.json();
+    if (error instanceof Error && error.name === "AbortError") {
+      return new AbortError(API_ERRORS.REQUEST_CANCELLED.dev);
+    }
+
+    // Already our error type
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    // Unknown error
+    return new ApiError(
+      error instanceof Error ? error.message : API_ERRORS.UNKNOWN.dev,
+      0
+    );
   }
 
   /**
@@ -209,54 +262,33 @@ export class ApiClient {
     endpoint: string,
     options: ApiRequestOptions = {}
   ): Promise<T> {
-    if (SHOW_SHUTDOWN_NOTICE) {
-      throw new ServiceShutdownError();
-    }
-
     const {
       retry,
       timeout = 60000, // 60 second default timeout
       deduplicate = (options.method || "GET") === "GET", // Auto-dedupe GET requests
+      idempotencyKey: keyOption,
       ...fetchOptions
     } = options;
 
-    // Request factory (called by retry logic or deduplication cache)
-    const makeRequest = async (): Promise<T> => {
-      try {
-        // Build headers with authentication (synchronous - no await needed!)
-        const headers = this.buildHeaders(options);
+    // Generated once per call so every retry attempt carries the same key
+    const idempotencyKey =
+      keyOption ?? ((options.method || "GET") !== "GET" ? uuidv4() : undefined);
 
+    // Request factory (called by retry logic or deduplication cache)
+    const makeRequest = (): Promise<T> =>
+      this.send(
+        endpoint,
+        { ...options, idempotencyKey },
         // Make request with timeout
-        const response = await fetchWithTimeout(`${API_BASE_URL}${endpoint}`, {
-          ...fetchOptions,
-          headers,
-          timeout,
-        });
-
-        // Handle response and errors
-        return this.handleResponse<T>(response);
-      } catch (error) {
-        // Convert native errors to our custom error types
-        if (error instanceof TypeError && error.message.includes("fetch")) {
-          throw new NetworkError(API_ERRORS.NETWORK.dev);
-        }
-
-        if (error instanceof Error && error.name === "AbortError") {
-          throw new AbortError(API_ERRORS.REQUEST_CANCELLED.dev);
-        }
-
-        // Re-throw if already our error type
-        if (error instanceof ApiError) {
-          throw error;
-        }
-
-        // Unknown error
-        throw new ApiError(
-          error instanceof Error ? error.message : API_ERRORS.UNKNOWN.dev,
-          0
-        );
-      }
-    };
+        (headers) =>
+          fetchWithTimeout(`${API_BASE_URL}${endpoint}`, {
+            ...fetchOptions,
+            headers,
+            timeout,
+          }),
+        // Parse successful response
+        (response) => response.json() as Promise<T>
+      );
 
     // Apply deduplication if enabled
     const dedupedRequest = deduplicate
@@ -271,6 +303,31 @@ export class ApiClient {
     return dedupedRequest();
   }
 
+  /**
+   * Open a streaming response (e.g. text/event-stream, see ./sse.ts)
+   *
+   * Same interceptors and error mapping as request(), but without timeout,
+   * retry or deduplication. The body is returned unread.
+   *
+   * @throws {ApiError} For non-OK responses and network failures
+   */
+  async openStream(
+    endpoint: string,
+    options: Pick<ApiRequestOptions, "headers" | "signal" | "skipAuth"> = {}
+  ): Promise<Response> {
+    return this.send(
+      endpoint,
+      options,
+      (headers) =>
+        fetch(`${API_BASE_URL}${endpoint}`, {
+          headers,
+          signal: options.signal,
+          cache: "no-store",
+        }),
+      (response) => response
+    );
+  }
+
   /**
    * Request with runtime Zod validation
    *
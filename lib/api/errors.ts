@@ -110,13 +110,17 @@ export class ValidationError extends ApiError {
  * These errors are retryable after the specified delay.
  */
 export class RateLimitError extends ApiError {
-  constructor(retryAfter: number = 60) {
+  // retryAfter is in seconds; undefined when the response had no Retry-After
+  constructor(retryAfter?: number) {
     super(API_ERRORS.RATE_LIMIT.dev, 429, "RATE_LIMIT_ERROR", true, retryAfter);
     this.name = "RateLimitError";
     Object.setPrototypeOf(this, RateLimitError.prototype);
   }
 
   getUserMessage(): string {
+    if (this.retryAfter === undefined) {
+      return API_ERRORS.RATE_LIMIT.user;
+    }
     return `${API_ERRORS.RATE_LIMIT.user} (${this.retryAfter}s)`;
   }
 }
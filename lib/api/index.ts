@@ -1,22 +1,32 @@
 import { apiClient } from "./client";
 import type { ApiRequestOptions } from "./types";
+import { streamEvents, parseEventData, type EventStreamOptions } from "./sse";
 import {
   EmailHistorySchema,
   GenerateEmailResponseSchema,
   TaskStatusResponseSchema,
   EmailResponseSchema,
+  DeleteEmailResponseSchema,
   UserProfileSchema,
   TemplateResponseSchema,
   TemplateListSchema,
   UserProfileWithCountSchema,
   QueueItemsSchema,
+  QueueProgressEventSchema,
   BatchSubmitResponseSchema,
   CancelQueueItemResponseSchema,
+  QueueBulkActionResponseSchema,
+  SavedTemplateSchema,
+  SavedTemplateListSchema,
+  DeleteSavedTemplateResponseSchema,
+  TemplateVersionListSchema,
   type EmailGenerationData,
   type GenerateEmailResponse,
   type TaskStatusResponse,
   type EmailResponse,
+  type EmailHistoryFilters,
   type UpdateEmailRequest,
+  type DeleteEmailResponse,
   type TaskStatus,
   type UserProfile,
   type TemplateGenerationRequest,
@@ -24,14 +34,32 @@ import {
   type TemplateList,
   type UserProfileWithCount,
   type QueueItem,
+  type QueueItemProgress,
+  type QueueProgressEvent,
   type BatchItem,
   type BatchSubmitResponse,
+  type RegenerateEmailRequest,
+  type RetryQueueItemsRequest,
   type CancelQueueItemResponse,
+  type CancelQueueItemsRequest,
+  type ReorderQueueRequest,
+  type QueueBulkActionResponse,
+  type SavedTemplate,
+  type SavedTemplateList,
+  type CreateSavedTemplateRequest,
+  type UpdateSavedTemplateRequest,
+  type DeleteSavedTemplateResponse,
+  type TemplateVersion,
+  type TemplateVersionList,
 } from "../schemas";
 
 export * from "./errors";
 export type { RetryOptions } from "./retry";
+export { parseRetryAfter, rateLimiter } from "./rate-limit";
 export type { ApiRequestOptions } from "./types";
+export { apiClient } from "./client";
+export type { ApiInterceptor, ApiRequestContext } from "./interceptors";
+export type { EventStreamOptions, ServerSentEvent } from "./sse";
 
 // User API - profile and authentication operations
 export const userAPI = {
@@ -62,17 +90,38 @@ export const userAPI = {
       ...options,
     });
   },
+
+  /** Snapshots recorded by updateTemplate, newest first. */
+  getTemplateVersions: async (
+    limit: number = 50,
+    options?: ApiRequestOptions
+  ): Promise<TemplateVersionList> => {
+    return apiClient.requestWithValidation(
+      `/api/user/template/versions?limit=${limit}`,
+      TemplateVersionListSchema,
+      options
+    );
+  },
 };
 
 // Email API - generation, history, and task status
 export const emailAPI = {
+  /** Filters are sent as query params; undefined and empty values are omitted. */
   getEmailHistory: async (
     limit: number = 20,
     offset: number = 0,
+    filters: EmailHistoryFilters = {},
     options?: ApiRequestOptions
   ): Promise<EmailResponse[]> => {
+    const params = new URLSearchParams({ limit: String(limit), offset: String(offset) });
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined && value !== "") {
+        params.set(key, String(value));
+      }
+    }
+
     return apiClient.requestWithValidation(
-      `/api/email/?limit=${limit}&offset=${offset}`,
+      `/api/email/?${params.toString()}`,
       EmailHistorySchema,
       options
     );
@@ -118,6 +167,14 @@ export const emailAPI = {
       ...options,
     });
   },
+
+  /** Permanently deletes a discarded email. */
+  deleteEmail: async (emailId: string, options?: ApiRequestOptions): Promise<DeleteEmailResponse> => {
+    return apiClient.requestWithValidation(`/api/email/${emailId}`, DeleteEmailResponseSchema, {
+      method: "DELETE",
+      ...options,
+    });
+  },
 };
 
 // Template API - generation, listing, and management
@@ -152,6 +209,56 @@ export const templateAPI = {
     );
   },
 
+  getSavedTemplates: async (options?: ApiRequestOptions): Promise<SavedTemplateList> => {
+    return apiClient.requestWithValidation(
+      "/api/templates/saved",
+      SavedTemplateListSchema,
+      options
+    );
+  },
+
+  createSavedTemplate: async (
+    data: CreateSavedTemplateRequest,
+    options?: ApiRequestOptions
+  ): Promise<SavedTemplate> => {
+    return apiClient.requestWithValidation("/api/templates/saved", SavedTemplateSchema, {
+      method: "POST",
+      body: JSON.stringify(data),
+      ...options,
+    });
+  },
+
+  /** Renames, edits text, or marks as default. Setting is_default clears it on all others. */
+  updateSavedTemplate: async (
+    templateId: string,
+    data: UpdateSavedTemplateRequest,
+    options?: ApiRequestOptions
+  ): Promise<SavedTemplate> => {
+    return apiClient.requestWithValidation(
+      `/api/templates/saved/${templateId}`,
+      SavedTemplateSchema,
+      {
+        method: "PATCH",
+        body: JSON.stringify(data),
+        ...options,
+      }
+    );
+  },
+
+  deleteSavedTemplate: async (
+    templateId: string,
+    options?: ApiRequestOptions
+  ): Promise<DeleteSavedTemplateResponse> => {
+    return apiClient.requestWithValidation(
+      `/api/templates/saved/${templateId}`,
+      DeleteSavedTemplateResponseSchema,
+      {
+        method: "DELETE",
+        ...options,
+      }
+    );
+  },
+
   /** Returns user profile with template_count for template page. */
   getUserProfile: async (options?: ApiRequestOptions): Promise<UserProfileWithCount> => {
     return apiClient.requestWithValidation(
@@ -175,6 +282,8 @@ export const queueAPI = {
         items: items.map((i) => ({
           recipient_name: i.recipient_name,
           recipient_interest: i.recipient_interest,
+          recipient_email: i.recipient_email,
+          subject_template: i.subject_template,
         })),
         email_template: emailTemplate,
       }),
@@ -183,6 +292,32 @@ export const queueAPI = {
     });
   },
 
+  /** Re-queues one recipient; the resulting email links back to source_email_id. */
+  regenerateEmail: async (
+    data: RegenerateEmailRequest,
+    options?: ApiRequestOptions
+  ): Promise<BatchSubmitResponse> => {
+    return apiClient.requestWithValidation("/api/queue/regenerate", BatchSubmitResponseSchema, {
+      method: "POST",
+      body: JSON.stringify(data),
+      retry: { maxAttempts: 2, baseDelay: 1000 },
+      ...options,
+    });
+  },
+
+  /** Re-queues failed items in place, keeping their original inputs. */
+  retryItems: async (
+    data: RetryQueueItemsRequest,
+    options?: ApiRequestOptions
+  ): Promise<BatchSubmitResponse> => {
+    return apiClient.requestWithValidation("/api/queue/retry", BatchSubmitResponseSchema, {
+      method: "POST",
+      body: JSON.stringify(data),
+      retry: { maxAttempts: 2, baseDelay: 1000 },
+      ...options,
+    });
+  },
+
   getQueueItems: async (options?: ApiRequestOptions): Promise<QueueItem[]> => {
     return apiClient.requestWithValidation("/api/queue/", QueueItemsSchema, options);
   },
@@ -196,6 +331,62 @@ export const queueAPI = {
       ...options,
     });
   },
+
+  cancelItems: async (
+    data: CancelQueueItemsRequest,
+    options?: ApiRequestOptions
+  ): Promise<QueueBulkActionResponse> => {
+    return apiClient.requestWithValidation("/api/queue/cancel", QueueBulkActionResponseSchema, {
+      method: "POST",
+      body: JSON.stringify(data),
+      ...options,
+    });
+  },
+
+  /** Pauses every pending item; processing items finish first. */
+  pauseQueue: async (options?: ApiRequestOptions): Promise<QueueBulkActionResponse> => {
+    return apiClient.requestWithValidation("/api/queue/pause", QueueBulkActionResponseSchema, {
+      method: "POST",
+      ...options,
+    });
+  },
+
+  resumeQueue: async (options?: ApiRequestOptions): Promise<QueueBulkActionResponse> => {
+    return apiClient.requestWithValidation("/api/queue/resume", QueueBulkActionResponseSchema, {
+      method: "POST",
+      ...options,
+    });
+  },
+
+  reorderQueue: async (
+    data: ReorderQueueRequest,
+    options?: ApiRequestOptions
+  ): Promise<QueueBulkActionResponse> => {
+    return apiClient.requestWithValidation("/api/queue/order", QueueBulkActionResponseSchema, {
+      method: "PUT",
+      body: JSON.stringify(data),
+      ...options,
+    });
+  },
+
+  /**
+   * Streams step transitions for the user's queue items (SSE)
+   *
+   * Resolves once options.signal aborts or the stream gives up (see streamEvents).
+   */
+  streamProgress: (
+    onProgress: (event: QueueProgressEvent) => void,
+    options: Omit<EventStreamOptions, "onEvent">
+  ): Promise<void> => {
+    return streamEvents("/api/queue/events", {
+      ...options,
+      onEvent: (event) => {
+        if (event.event !== "progress") return;
+        const progress = parseEventData(event, QueueProgressEventSchema);
+        if (progress) onProgress(progress);
+      },
+    });
+  },
 };
 
 export const api = {
@@ -211,6 +402,8 @@ export type {
   GenerateEmailResponse,
   TaskStatusResponse,
   EmailResponse,
+  EmailHistoryFilters,
+  DeleteEmailResponse,
   TaskStatus,
   UserProfile,
   TemplateGenerationRequest,
@@ -218,7 +411,21 @@ export type {
   TemplateList,
   UserProfileWithCount,
   QueueItem,
+  QueueItemProgress,
+  QueueProgressEvent,
   BatchItem,
   BatchSubmitResponse,
+  RegenerateEmailRequest,
+  RetryQueueItemsRequest,
   CancelQueueItemResponse,
+  CancelQueueItemsRequest,
+  ReorderQueueRequest,
+  QueueBulkActionResponse,
+  SavedTemplate,
+  SavedTemplateList,
+  CreateSavedTemplateRequest,
+  UpdateSavedTemplateRequest,
+  DeleteSavedTemplateResponse,
+  TemplateVersion,
+  TemplateVersionList,
 };
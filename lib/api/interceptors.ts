@@ -0,0 +1,160 @@
+/**
+ * API Client Interceptors
+ * Hooks around every request attempt made by ApiClient, plus the built-in
+ * plugins for shutdown handling, authentication and request IDs
+ */
+
+import { REQUEST_ID_COOKIE, SHOW_SHUTDOWN_NOTICE } from "@/config/api";
+import { createLogger } from "@/utils/logger";
+import { AUTH_ERRORS } from "@/constants/error-messages";
+import { useAuthStore } from "@/stores/auth-store";
+import { type ApiError, AuthenticationError, ServiceShutdownError } from "./errors";
+import type { ApiRequestOptions } from "./types";
+
+const logger = createLogger("ApiClient");
+
+// Latest request ID from the API, also read by utils/logger
+declare global {
+  interface Window {
+    __REQUEST_ID__?: string;
+  }
+}
+
+/**
+ * One request attempt (retries get a fresh context)
+ */
+export interface ApiRequestContext {
+  endpoint: string;
+  options: ApiRequestOptions;
+  // Sent with the request; onRequest may add or change headers
+  headers: Headers;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Request/response plugin for ApiClient
+ *
+ * Interceptors run in registration order. Each hook may return a replacement
+ * or nothing to keep what it was given.
+ *
+ * @example
+ * // Telemetry
+ * apiClient.use({
+ *   name: "timing",
+ *   onResponse: (response, { endpoint }) => {
+ *     metrics.record(endpoint, response.status);
+ *   },
+ * });
+ *
+ * @example
+ * // Mock a response (skips the network and later onRequest hooks)
+ * apiClient.use({
+ *   name: "mock-queue",
+ *   onRequest: ({ endpoint }) =>
+ *     endpoint === "/api/queue/" ? Response.json([]) : undefined,
+ * });
+ */
+export interface ApiInterceptor {
+  name: string;
+
+  /**
+   * Before the request is sent; may edit context.headers
+   *
+   * Return a Response to use it instead of fetching. Throw to fail the attempt.
+   */
+  onRequest?: (context: ApiRequestContext) => MaybePromise<Response | void>;
+
+  /**
+   * On every response (including non-OK), before it is mapped to an error
+   */
+  onResponse?: (response: Response, context: ApiRequestContext) => MaybePromise<Response | void>;
+
+  /**
+   * When an attempt fails, after the failure is mapped to an ApiError
+   *
+   * Return a different error to throw instead.
+   */
+  onError?: (error: ApiError, context: ApiRequestContext) => MaybePromise<ApiError | void>;
+}
+
+/**
+ * Fail every request while the shutdown notice is shown
+ */
+export const shutdownInterceptor: ApiInterceptor = {
+  name: "shutdown",
+  onRequest: () => {
+    if (SHOW_SHUTDOWN_NOTICE) {
+      throw new ServiceShutdownError();
+    }
+  },
+};
+
+/**
+ * Get the access token from the Zustand auth store (SYNCHRONOUS)
+ *
+ * Supabase handles ALL token refresh logic via autoRefreshToken; this just
+ * reads the current token snapshot.
+ *
+ * @throws {AuthenticationError} If no valid session exists
+ */
+export function getAuthToken(): string {
+  const token = useAuthStore.getState().getToken();
+
+  if (!token) {
+    logger.error(AUTH_ERRORS.NO_TOKEN.dev);
+    throw new AuthenticationError(AUTH_ERRORS.NO_TOKEN.dev);
+  }
+
+  return token;
+}
+
+/**
+ * Send the bearer token unless the request sets skipAuth
+ */
+export const authInterceptor: ApiInterceptor = {
+  name: "auth",
+  onRequest: ({ options, headers }) => {
+    if (!options.skipAuth) {
+      headers.set("Authorization", `Bearer ${getAuthToken()}`);
+    }
+  },
+};
+
+// Request ID middleware assigned to the page load, if its cookie is still set
+function readRequestIdCookie(): string | undefined {
+  const prefix = `${REQUEST_ID_COOKIE}=`;
+  const cookie = document.cookie.split("; ").find((part) => part.startsWith(prefix));
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : undefined;
+}
+
+/**
+ * Propagate the last X-Request-ID for distributed tracing
+ *
+ * The ID starts as the one middleware assigned to the page load (read from
+ * its cookie), then follows the API's responses. The API is on another
+ * origin, so it must send `Access-Control-Expose-Headers: X-Request-ID` for
+ * the browser to let us read the header.
+ */
+export const requestIdInterceptor: ApiInterceptor = {
+  name: "request-id",
+  onRequest: ({ headers }) => {
+    if (typeof window === "undefined") return;
+    window.__REQUEST_ID__ ??= readRequestIdCookie();
+    if (window.__REQUEST_ID__) {
+      headers.set("X-Request-ID", window.__REQUEST_ID__);
+    }
+  },
+  onResponse: (response) => {
+    const requestId = response.headers.get("X-Request-ID");
+    if (requestId && typeof window !== "undefined") {
+      window.__REQUEST_ID__ = requestId;
+    }
+  },
+};
+
+export const DEFAULT_INTERCEPTORS: ApiInterceptor[] = [
+  shutdownInterceptor,
+  authInterceptor,
+  requestIdInterceptor,
+];
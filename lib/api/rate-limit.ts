@@ -0,0 +1,135 @@
+/**
+ * Client-Wide Rate Limiter
+ * Pauses requests to an endpoint family after a 429 with Retry-After, so
+ * queued calls wait out the limit instead of hitting it again
+ */
+
+import { AbortError } from "./errors";
+
+/**
+ * Parse a Retry-After header into whole seconds from now
+ *
+ * Accepts both forms from RFC 9110: delay-seconds ("42") and an HTTP-date
+ * ("Wed, 21 Oct 2015 07:28:00 GMT"). A date in the past is 0.
+ *
+ * @returns null when the header is missing or unparseable
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10);
+  }
+
+  // Every HTTP-date names its month; without this check Date.parse would
+  // read garbage like "-5" or "12.5" as a year
+  if (!/[a-z]{3}/i.test(trimmed)) return null;
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+/**
+ * Endpoint family a limit applies to: the first two path segments
+ *
+ * @example
+ * getEndpointFamily("/api/queue/batch") // "/api/queue"
+ * getEndpointFamily("/api/email/123?fields=id") // "/api/email"
+ */
+export function getEndpointFamily(endpoint: string): string {
+  const path = endpoint.split(/[?#]/)[0];
+  return "/" + path.split("/").filter(Boolean).slice(0, 2).join("/");
+}
+
+type Listener = () => void;
+
+export class RateLimiter {
+  // Family -> epoch ms when requests may resume
+  private resumeAt = new Map<string, number>();
+  private listeners = new Set<Listener>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Pause an endpoint's family for the given number of seconds
+   *
+   * An earlier pause that ends later is kept.
+   */
+  pause(endpoint: string, seconds: number): void {
+    const family = getEndpointFamily(endpoint);
+    const until = this.now() + seconds * 1000;
+    if (until <= (this.resumeAt.get(family) ?? 0)) return;
+
+    this.resumeAt.set(family, until);
+    this.notify();
+  }
+
+  /**
+   * Milliseconds until requests to the endpoint's family may resume (0 if not paused)
+   */
+  getRemaining(endpoint: string): number {
+    const family = getEndpointFamily(endpoint);
+    const until = this.resumeAt.get(family);
+    if (until === undefined) return 0;
+
+    const remaining = until - this.now();
+    if (remaining <= 0) {
+      this.resumeAt.delete(family);
+      return 0;
+    }
+    return remaining;
+  }
+
+  /**
+   * Resolve once the endpoint's family is no longer paused
+   *
+   * Waits again if the pause is extended meanwhile.
+   *
+   * @throws {AbortError} If the signal aborts while waiting
+   */
+  async wait(endpoint: string, signal?: AbortSignal | null): Promise<void> {
+    let remaining = this.getRemaining(endpoint);
+
+    while (remaining > 0) {
+      await new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(new AbortError());
+          return;
+        }
+
+        const onAbort = () => {
+          clearTimeout(timeoutId);
+          reject(new AbortError());
+        };
+        const timeoutId = setTimeout(() => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        }, remaining);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+
+      remaining = this.getRemaining(endpoint);
+    }
+  }
+
+  /**
+   * Be notified when a family is paused (for countdowns in the UI)
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
+
+export const rateLimiter = new RateLimiter();
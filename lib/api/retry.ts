@@ -3,6 +3,7 @@ import {
   NetworkError,
   TimeoutError,
   ServerError,
+  RateLimitError,
 } from "./errors";
 
 /**
@@ -33,6 +34,15 @@ export interface RetryOptions {
    */
   jitter?: boolean;
 
+  /**
+   * Longest Retry-After (in milliseconds) to wait for before retrying a 429
+   *
+   * Rate-limited attempts wait for Retry-After instead of the backoff delay.
+   * Longer waits are not retried; the endpoint stays paused (see rate-limit.ts).
+   * @default 60000
+   */
+  maxRetryAfter?: number;
+
   /**
    * Custom function to determine if error should be retried
    */
@@ -51,6 +61,7 @@ const DEFAULT_RETRY_OPTIONS: Required<
   baseDelay: 1000,
   maxDelay: 10000,
   jitter: true,
+  maxRetryAfter: 60000,
 };
 
 /**
@@ -136,15 +147,24 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error;
 
+      // Honor Retry-After over the backoff delay
+      const retryAfterMs =
+        error instanceof RateLimitError && error.retryAfter !== undefined
+          ? error.retryAfter * 1000
+          : null;
+
       // Check if we should retry
-      const willRetry = attempt < opts.maxAttempts && shouldRetry(error, attempt);
+      const willRetry =
+        attempt < opts.maxAttempts &&
+        shouldRetry(error, attempt) &&
+        (retryAfterMs === null || retryAfterMs <= opts.maxRetryAfter);
 
       if (!willRetry) {
         throw error;
       }
 
       // Calculate delay
-      const delay = calculateDelay(attempt, opts);
+      const delay = retryAfterMs ?? calculateDelay(attempt, opts);
 
       // Call onRetry callback
       options.onRetry?.(error, attempt, delay);
@@ -0,0 +1,217 @@
+/**
+ * Server-Sent Events Client
+ * Reads text/event-stream responses over fetch, since EventSource can't send
+ * the Authorization header, and reconnects with backoff via withRetry
+ */
+
+import { z } from "zod";
+import { createLogger } from "@/utils/logger";
+import { apiClient } from "./client";
+import { AbortError, NetworkError } from "./errors";
+import { withRetry, type RetryOptions } from "./retry";
+
+const logger = createLogger("EventStream");
+
+/**
+ * A dispatched event (see the WHATWG event stream format)
+ */
+export interface ServerSentEvent {
+  // "message" when the server sends no event field
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export interface EventStreamOptions {
+  signal: AbortSignal;
+  onEvent: (event: ServerSentEvent) => void;
+  onOpen?: () => void;
+  // willReconnect is false once retries are exhausted or the error isn't retryable
+  onError?: (error: unknown, willReconnect: boolean) => void;
+  /**
+   * Backoff between failed connection attempts
+   * @default { maxAttempts: Infinity, baseDelay: 1000, maxDelay: 30000 }
+   */
+  retry?: RetryOptions;
+}
+
+const DEFAULT_STREAM_RETRY: RetryOptions = {
+  maxAttempts: Number.POSITIVE_INFINITY,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  // Keep reconnecting after any Retry-After
+  maxRetryAfter: Number.POSITIVE_INFINITY,
+};
+
+/**
+ * Incremental event stream parser
+ *
+ * Feed it decoded chunks in order; complete events are passed to onEvent.
+ * Lines may be split across chunks and end in CRLF, LF or CR.
+ */
+export function createEventStreamParser(
+  onEvent: (event: ServerSentEvent) => void
+): (chunk: string) => void {
+  let buffer = "";
+  let eventType = "";
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+
+  const processLine = (line: string) => {
+    // Blank line dispatches the pending event
+    if (line === "") {
+      if (dataLines.length > 0) {
+        onEvent({ event: eventType || "message", data: dataLines.join("\n"), id: lastEventId });
+      }
+      eventType = "";
+      dataLines = [];
+      return;
+    }
+
+    // Comment (used by servers as a keep-alive)
+    if (line.startsWith(":")) return;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") eventType = value;
+    else if (field === "data") dataLines.push(value);
+    else if (field === "id" && !value.includes("\0")) lastEventId = value;
+  };
+
+  return (chunk) => {
+    buffer += chunk;
+
+    while (true) {
+      const end = buffer.search(/[\r\n]/);
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (end === -1 || (buffer[end] === "\r" && end === buffer.length - 1)) break;
+
+      const skip = buffer[end] === "\r" && buffer[end + 1] === "\n" ? 2 : 1;
+      processLine(buffer.slice(0, end));
+      buffer = buffer.slice(end + skip);
+    }
+  };
+}
+
+/**
+ * Parse and validate an event's JSON data
+ *
+ * @returns The parsed data, or null (logged) if it doesn't match the schema
+ */
+export function parseEventData<T>(event: ServerSentEvent, schema: z.ZodSchema<T>): T | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(event.data);
+  } catch {
+    logger.warn("Event data is not JSON", { event: event.event });
+    return null;
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    logger.warn("Event data failed validation", {
+      event: event.event,
+      issues: parsed.error.issues.map((i) => ({ path: i.path, message: i.message })),
+    });
+    return null;
+  }
+  return parsed.data;
+}
+
+// Wait that ends early (without throwing) when the stream is closed
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timeoutId);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Stream events from an authenticated endpoint until signal aborts
+ *
+ * Each connection reads the current token (see authInterceptor) and
+ * sends Last-Event-ID so the server can replay missed events. Failed
+ * connection attempts back off through withRetry; a stream that was open and
+ * then dropped reconnects after baseDelay with the backoff reset.
+ *
+ * Never rejects: resolves on abort, or after reporting a final error to
+ * onError (e.g. an expired session, which isn't retryable).
+ *
+ * @example
+ * const controller = new AbortController();
+ * void streamEvents("/api/queue/events", {
+ *   signal: controller.signal,
+ *   onEvent: (event) => console.log(event.event, event.data),
+ * });
+ * // later
+ * controller.abort();
+ */
+export async function streamEvents(endpoint: string, options: EventStreamOptions): Promise<void> {
+  const { signal, onEvent, onOpen, onError } = options;
+  const retry = { ...DEFAULT_STREAM_RETRY, ...options.retry };
+  let lastEventId: string | undefined;
+
+  const parser = () =>
+    createEventStreamParser((event) => {
+      lastEventId = event.id;
+      onEvent(event);
+    });
+
+  // Resolves when an open stream ends; throws if the connection can't be opened
+  const connect = async () => {
+    const headers = new Headers({ Accept: "text/event-stream" });
+    if (lastEventId) headers.set("Last-Event-ID", lastEventId);
+
+    const response = await apiClient.openStream(endpoint, { headers, signal });
+    if (!response.body) {
+      throw new NetworkError("Event stream has no body");
+    }
+
+    onOpen?.();
+    const feed = parser();
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        feed(value);
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        logger.warn("Event stream dropped", { endpoint, error: String(error) });
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  };
+
+  while (!signal.aborted) {
+    try {
+      await withRetry(connect, {
+        ...retry,
+        onRetry: (error, attempt, delayMs) => {
+          retry.onRetry?.(error, attempt, delayMs);
+          onError?.(error, true);
+        },
+      });
+    } catch (error) {
+      if (signal.aborted || error instanceof AbortError) return;
+
+      logger.error("Event stream closed", { endpoint, error: String(error) });
+      onError?.(error, false);
+      return;
+    }
+
+    if (signal.aborted) return;
+    onError?.(new NetworkError("Event stream ended"), true);
+    await sleep(retry.baseDelay ?? 1000, signal);
+  }
+}
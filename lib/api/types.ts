@@ -87,4 +87,22 @@ export interface ApiRequestOptions extends Omit<RequestInit, "signal"> {
    * api.createEmail(data, { deduplicate: true })
    */
   deduplicate?: boolean;
+
+  /**
+   * Sent as the Idempotency-Key header
+   *
+   * The server applies a request with a key it has already seen only once,
+   * so a write can be retried safely after a timeout or lost response. Every
+   * retry attempt of a call sends the same key.
+   *
+   * @default A new UUID per call for non-GET requests, none for GET
+   *
+   * @example
+   * // Resend a batch that may or may not have reached the server
+   * api.queue.submitBatch(items, template, { idempotencyKey: entry.id })
+   *
+   * // Send without a key
+   * api.request('/api/cleanup', { method: 'POST', idempotencyKey: false })
+   */
+  idempotencyKey?: string | false;
 }
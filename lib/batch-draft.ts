@@ -0,0 +1,160 @@
+/**
+ * Batch Draft
+ * Row model and validation for the Generate page recipient grid
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { BatchItemSchema, type BatchItem } from "./schemas";
+import { getSubjectTemplateIssue } from "./template-engine";
+
+// Mirrors the backend limit for POST /api/queue/batch
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Editable grid row - a BatchItem plus a stable client-side key
+ */
+export interface BatchDraftRow extends BatchItem {
+  id: string;
+}
+
+export interface DraftRowValidation {
+  errors: Partial<Record<keyof BatchItem, string>>;
+  isDuplicate: boolean;
+  isEmpty: boolean;
+}
+
+export interface DraftValidationResult {
+  rows: Record<string, DraftRowValidation>;
+  items: BatchItem[];
+  errorCount: number;
+  duplicateCount: number;
+  isValid: boolean;
+}
+
+export function createDraftRow(item: Partial<BatchItem> = {}): BatchDraftRow {
+  return {
+    id: uuidv4(),
+    recipient_name: item.recipient_name ?? "",
+    recipient_interest: item.recipient_interest ?? "",
+    recipient_email: item.recipient_email ?? "",
+    subject_template: item.subject_template ?? "",
+  };
+}
+
+// Fields shown in the grid's optional mail-merge columns
+export function hasMergeFields(row: BatchItem): boolean {
+  return !!row.recipient_email?.trim() || !!row.subject_template?.trim();
+}
+
+function isEmptyRow(row: BatchItem): boolean {
+  return !row.recipient_name.trim() && !row.recipient_interest.trim() && !hasMergeFields(row);
+}
+
+// Same professor regardless of case or spacing
+function duplicateKey(row: BatchItem): string {
+  return row.recipient_name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Blank optional fields are omitted rather than sent as ""
+function toBatchItem(row: BatchItem): BatchItem {
+  const item: BatchItem = {
+    recipient_name: row.recipient_name.trim(),
+    recipient_interest: row.recipient_interest.trim(),
+  };
+  const email = row.recipient_email?.trim();
+  const subject = row.subject_template?.trim();
+  if (email) item.recipient_email = email;
+  if (subject) item.subject_template = subject;
+  return item;
+}
+
+/**
+ * Split clipboard text into BatchItems
+ *
+ * One recipient per line. Tab-separated cells (copied from a spreadsheet)
+ * map to name, interest, email and subject in grid column order; commas are
+ * NOT treated as separators so names like "Smith, Jr." survive.
+ */
+export function parsePastedRows(text: string): BatchItem[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.split("\t"))
+    .map(([name = "", interest = "", email = "", subject = ""]) => ({
+      recipient_name: name.trim(),
+      recipient_interest: interest.trim(),
+      recipient_email: email.trim(),
+      subject_template: subject.trim(),
+    }))
+    .filter((item) => !isEmptyRow(item));
+}
+
+/**
+ * Validate every grid row against BatchItemSchema and flag duplicate names
+ *
+ * Fully empty rows are ignored (no errors, not submitted).
+ */
+export function validateDraftRows(rows: BatchDraftRow[]): DraftValidationResult {
+  const keyCounts = new Map<string, number>();
+  for (const row of rows) {
+    if (isEmptyRow(row)) continue;
+    const key = duplicateKey(row);
+    keyCounts.set(key, (keyCounts.get(key) ?? 0) + 1);
+  }
+
+  const result: DraftValidationResult = {
+    rows: {},
+    items: [],
+    errorCount: 0,
+    duplicateCount: 0,
+    isValid: false,
+  };
+
+  for (const row of rows) {
+    if (isEmptyRow(row)) {
+      result.rows[row.id] = { errors: {}, isDuplicate: false, isEmpty: true };
+      continue;
+    }
+
+    const item = toBatchItem(row);
+    const parsed = BatchItemSchema.safeParse(item);
+    const errors: DraftRowValidation["errors"] = {};
+
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const field = issue.path[0] as keyof BatchItem;
+        errors[field] ??= issue.message;
+      }
+    }
+    const subjectIssue = item.subject_template && getSubjectTemplateIssue(item.subject_template);
+    if (subjectIssue) errors.subject_template ??= subjectIssue;
+    if (Object.values(errors).some(Boolean)) result.errorCount++;
+
+    const isDuplicate = (keyCounts.get(duplicateKey(row)) ?? 0) > 1;
+    if (isDuplicate) result.duplicateCount++;
+
+    result.rows[row.id] = { errors, isDuplicate, isEmpty: false };
+    result.items.push(item);
+  }
+
+  result.isValid =
+    result.items.length > 0 &&
+    result.items.length <= MAX_BATCH_SIZE &&
+    result.errorCount === 0 &&
+    result.duplicateCount === 0;
+
+  return result;
+}
+
+/**
+ * Drop every row whose name already appeared earlier in the grid
+ */
+export function removeDuplicateRows(rows: BatchDraftRow[]): BatchDraftRow[] {
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    if (isEmptyRow(row)) return true;
+    const key = duplicateKey(row);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,203 @@
+/**
+ * Batch Outbox
+ *
+ * IndexedDB-backed store of batches that haven't reached POST /api/queue/batch
+ * yet. A batch is saved before it is sent and removed once the API accepts it,
+ * so a dropped connection or closed tab doesn't lose the recipient list. The
+ * entry id is sent as the Idempotency-Key, so resending a batch the server
+ * already accepted doesn't queue it twice.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import logger from "@/utils/logger";
+import { queueAPI } from "@/lib/api";
+import { ApiError } from "@/lib/api/errors";
+import type { BatchItem, BatchSubmitResponse } from "@/lib/schemas";
+import { openDatabase, promisifyRequest, transactionDone } from "@/lib/idb";
+
+const DB_NAME = "scribe-batch-outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "batches";
+
+export interface OutboxEntry {
+  // Also the Idempotency-Key for every send of this batch
+  id: string;
+  user_id: string;
+  items: BatchItem[];
+  email_template: string;
+  created_at: string;
+  attempts: number;
+  last_error: string | null;
+  // The API refused the batch (e.g. validation); only resent when asked
+  rejected: boolean;
+}
+
+function openOutboxDatabase(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+      store.createIndex("user_id", "user_id");
+    }
+  });
+}
+
+async function withOutbox<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openOutboxDatabase();
+  try {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const result = await run(transaction.objectStore(STORE_NAME));
+    await transactionDone(transaction);
+    return result;
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Whether a failed send should stay in the outbox and be retried
+ *
+ * Connectivity problems, timeouts, rate limits and 5xx are; anything the API
+ * rejected outright is not.
+ */
+export function isOutboxRetryable(error: unknown): boolean {
+  return error instanceof ApiError && error.retryable;
+}
+
+/**
+ * List a user's unsent batches, oldest first (the order they're resent in)
+ */
+export async function getOutboxEntries(userId: string): Promise<OutboxEntry[]> {
+  const entries = await withOutbox("readonly", (store) =>
+    promisifyRequest<OutboxEntry[]>(store.index("user_id").getAll(userId))
+  );
+  return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/**
+ * Save a batch before sending it
+ *
+ * Never throws - returns null when IndexedDB is unavailable, in which case the
+ * batch is sent without an outbox entry (and without offline recovery).
+ */
+export async function addOutboxEntry(
+  userId: string,
+  items: BatchItem[],
+  emailTemplate: string
+): Promise<OutboxEntry | null> {
+  const entry: OutboxEntry = {
+    id: uuidv4(),
+    user_id: userId,
+    items,
+    email_template: emailTemplate,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    last_error: null,
+    rejected: false,
+  };
+
+  try {
+    await withOutbox("readwrite", (store) => promisifyRequest(store.add(entry)));
+    return entry;
+  } catch (error) {
+    logger.warn("[BatchOutbox] Failed to save batch", { error });
+    return null;
+  }
+}
+
+/**
+ * Record a failed send
+ */
+export async function recordOutboxFailure(entry: OutboxEntry, error: unknown): Promise<void> {
+  const failed: OutboxEntry = {
+    ...entry,
+    attempts: entry.attempts + 1,
+    last_error: error instanceof ApiError ? error.getUserMessage() : String(error),
+    rejected: !isOutboxRetryable(error),
+  };
+
+  try {
+    await withOutbox("readwrite", (store) => promisifyRequest(store.put(failed)));
+  } catch (storeError) {
+    logger.warn("[BatchOutbox] Failed to record send failure", { error: storeError });
+  }
+}
+
+/**
+ * Remove a batch once it is accepted (or the user discards it)
+ */
+export async function removeOutboxEntry(id: string): Promise<void> {
+  try {
+    await withOutbox("readwrite", (store) => promisifyRequest(store.delete(id)));
+  } catch (error) {
+    logger.warn("[BatchOutbox] Failed to remove batch", { error });
+  }
+}
+
+/**
+ * Send a saved batch, keyed by its outbox id
+ */
+export function sendOutboxEntry(entry: OutboxEntry): Promise<BatchSubmitResponse> {
+  return queueAPI.submitBatch(entry.items, entry.email_template, { idempotencyKey: entry.id });
+}
+
+export interface OutboxFlushResult {
+  sent: number;
+  // Queue items created by the batches that were sent
+  queued: number;
+}
+
+// One flush at a time, so an "online" event during a load flush can't double-send
+let activeFlush: { promise: Promise<OutboxFlushResult>; includeRejected: boolean } | null = null;
+
+async function runFlush(userId: string, includeRejected: boolean): Promise<OutboxFlushResult> {
+  const result: OutboxFlushResult = { sent: 0, queued: 0 };
+
+  for (const entry of await getOutboxEntries(userId)) {
+    if (entry.rejected && !includeRejected) continue;
+
+    try {
+      const response = await sendOutboxEntry(entry);
+      await removeOutboxEntry(entry.id);
+      result.sent++;
+      result.queued += response.queue_item_ids.length;
+    } catch (error) {
+      logger.warn("[BatchOutbox] Resend failed", { id: entry.id, error });
+      await recordOutboxFailure(entry, error);
+      // Still unreachable, so the remaining batches would fail the same way
+      if (isOutboxRetryable(error)) break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resend a user's unsent batches, oldest first
+ *
+ * Batches the API rejected are skipped unless includeRejected is set (the
+ * user asked to send them again). Joins a flush that is already running,
+ * unless that one skips rejected batches and this call includes them; then
+ * this pass runs after it.
+ */
+export function flushOutbox(
+  userId: string,
+  { includeRejected = false }: { includeRejected?: boolean } = {}
+): Promise<OutboxFlushResult> {
+  if (activeFlush && (activeFlush.includeRejected || !includeRejected)) {
+    return activeFlush.promise;
+  }
+
+  const previous = activeFlush?.promise;
+  const promise: Promise<OutboxFlushResult> = (async () => {
+    await previous?.catch(() => undefined);
+    return runFlush(userId, includeRejected);
+  })().finally(() => {
+    if (activeFlush?.promise === promise) activeFlush = null;
+  });
+
+  activeFlush = { promise, includeRejected };
+  return promise;
+}
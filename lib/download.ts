@@ -0,0 +1,20 @@
+/**
+ * Browser Download Helper
+ * Uses Blob API + URL.createObjectURL + synthetic anchor click
+ */
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = "hidden";
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Cleanup
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,81 @@
+/**
+ * Email Cache Helpers
+ * Optimistic patching of the infinite email history cache with rollback
+ */
+
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import type { EmailResponse } from "./schemas";
+import { queryKeys } from "./query-keys";
+
+export interface InfiniteEmailData {
+  pages: EmailResponse[][];
+  pageParams: number[];
+}
+
+export type EmailCacheSnapshot = Array<[QueryKey, unknown]>;
+
+/**
+ * Cancel in-flight history refetches and snapshot every infinite email query
+ *
+ * Call from onMutate so a refetch can't overwrite the optimistic update.
+ */
+export async function snapshotEmailCache(queryClient: QueryClient): Promise<EmailCacheSnapshot> {
+  await queryClient.cancelQueries({ queryKey: queryKeys.emails.infiniteAll() });
+  return queryClient.getQueriesData({ queryKey: queryKeys.emails.infiniteAll() });
+}
+
+/**
+ * Apply a patch to matching emails in every infinite email query
+ */
+export function patchCachedEmails(
+  queryClient: QueryClient,
+  emailIds: string[],
+  patch: Partial<EmailResponse> | ((email: EmailResponse) => EmailResponse)
+): void {
+  const ids = new Set(emailIds);
+
+  queryClient.setQueriesData<InfiniteEmailData>(
+    { queryKey: queryKeys.emails.infiniteAll() },
+    (old) => {
+      if (!old) return old;
+
+      return {
+        ...old,
+        pages: old.pages.map((page) =>
+          page.map((email) => {
+            if (!ids.has(email.id)) return email;
+            return typeof patch === "function" ? patch(email) : { ...email, ...patch };
+          })
+        ),
+      };
+    }
+  );
+}
+
+/**
+ * Remove emails from every infinite email query (e.g. restored out of trash)
+ */
+export function removeCachedEmails(queryClient: QueryClient, emailIds: string[]): void {
+  const ids = new Set(emailIds);
+
+  queryClient.setQueriesData<InfiniteEmailData>(
+    { queryKey: queryKeys.emails.infiniteAll() },
+    (old) => {
+      if (!old) return old;
+
+      return {
+        ...old,
+        pages: old.pages.map((page) => page.filter((email) => !ids.has(email.id))),
+      };
+    }
+  );
+}
+
+/**
+ * Roll back to a snapshot taken by snapshotEmailCache
+ */
+export function restoreEmailCache(queryClient: QueryClient, snapshot?: EmailCacheSnapshot): void {
+  snapshot?.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data);
+  });
+}
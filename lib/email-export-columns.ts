@@ -0,0 +1,62 @@
+/**
+ * Email Export Columns
+ * Column definitions shared by the tabular export formats (Excel, CSV, Markdown)
+ */
+
+import type { EmailResponse } from "./schemas";
+import { getRecipientEmail, getResolvedSubject } from "./email-metadata";
+
+export type ExportColumn =
+  | "recipient_name"
+  | "recipient_email"
+  | "recipient_interest"
+  | "subject"
+  | "email_message"
+  | "created_at"
+  | "is_confident"
+  | "template_type";
+
+export type ExportCellValue = string | boolean;
+
+interface ExportColumnDefinition {
+  key: ExportColumn;
+  label: string;
+  getValue: (email: EmailResponse) => ExportCellValue;
+}
+
+// Display order; selected columns are always exported in this order
+export const EXPORT_COLUMNS: ExportColumnDefinition[] = [
+  { key: "recipient_name", label: "Recipient Name", getValue: (email) => email.recipient_name },
+  { key: "recipient_email", label: "Recipient Email", getValue: (email) => getRecipientEmail(email) ?? "" },
+  { key: "recipient_interest", label: "Interest/Field", getValue: (email) => email.recipient_interest },
+  { key: "subject", label: "Subject", getValue: (email) => getResolvedSubject(email) ?? "" },
+  { key: "email_message", label: "Message", getValue: (email) => email.email_message },
+  { key: "created_at", label: "Created At", getValue: (email) => email.created_at },
+  { key: "is_confident", label: "Confident", getValue: (email) => email.is_confident },
+  { key: "template_type", label: "Template Type", getValue: (email) => email.template_type },
+];
+
+// Matches the original Excel export
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  "recipient_name",
+  "recipient_interest",
+  "email_message",
+];
+
+export function getExportColumns(columns: ExportColumn[]): ExportColumnDefinition[] {
+  return EXPORT_COLUMNS.filter((column) => columns.includes(column.key));
+}
+
+/**
+ * Map emails to row objects keyed by column label
+ */
+export function buildExportRows(
+  emails: EmailResponse[],
+  columns: ExportColumn[]
+): Record<string, ExportCellValue>[] {
+  const definitions = getExportColumns(columns);
+
+  return emails.map((email) =>
+    Object.fromEntries(definitions.map((column) => [column.label, column.getValue(email)]))
+  );
+}
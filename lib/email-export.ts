@@ -0,0 +1,409 @@
+/**
+ * Email Export Formats
+ * Builds downloadable files from emails: spreadsheet and text formats for
+ * review, .eml/mbox for importing into a mail client
+ */
+
+import { strToU8, zipSync } from "fflate";
+import type { EmailResponse } from "./schemas";
+import { convertEmailsToExcel, workbookToBlob } from "./excel-utils";
+import { buildExportRows, getExportColumns, type ExportColumn } from "./email-export-columns";
+import { getRecipientEmail, getResolvedSubject } from "./email-metadata";
+
+export type ExportFormat = "xlsx" | "csv" | "merge" | "json" | "markdown" | "eml" | "mbox";
+
+interface ExportFormatDefinition {
+  label: string;
+  description: string;
+  extension: string;
+  mimeType: string;
+  // Formats with a fixed layout ignore the column selection
+  usesColumns: boolean;
+  // Appended to the basename, e.g. email-history-mail-merge-2025-01-31.csv
+  filenameSuffix?: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatDefinition> = {
+  xlsx: {
+    label: "Excel",
+    description: "Spreadsheet (.xlsx)",
+    extension: "xlsx",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    usesColumns: true,
+  },
+  csv: {
+    label: "CSV",
+    description: "Comma-separated values",
+    extension: "csv",
+    mimeType: "text/csv;charset=utf-8",
+    usesColumns: true,
+  },
+  merge: {
+    label: "Mail merge",
+    description: "CSV with To, Subject and Body columns",
+    extension: "csv",
+    mimeType: "text/csv;charset=utf-8",
+    usesColumns: false,
+    filenameSuffix: "-mail-merge",
+  },
+  json: {
+    label: "JSON",
+    description: "Full email records including metadata",
+    extension: "json",
+    mimeType: "application/json",
+    usesColumns: false,
+  },
+  markdown: {
+    label: "Markdown",
+    description: "Readable document (.md)",
+    extension: "md",
+    mimeType: "text/markdown;charset=utf-8",
+    usesColumns: true,
+  },
+  eml: {
+    label: "EML files",
+    description: "One .eml per email, zipped",
+    extension: "zip",
+    mimeType: "application/zip",
+    usesColumns: false,
+  },
+  mbox: {
+    label: "mbox",
+    description: "Single mailbox file for mail clients",
+    extension: "mbox",
+    mimeType: "application/mbox",
+    usesColumns: false,
+  },
+};
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumn[];
+}
+
+export interface ExportFile {
+  blob: Blob;
+  filename: string;
+}
+
+/**
+ * Incremental export: pages are written as they arrive and the file is
+ * assembled once at the end. Text formats keep only their encoded output,
+ * not the emails themselves (Excel is the exception, as SheetJS needs all rows).
+ */
+export interface ExportWriter {
+  // Returns the total number of rows written so far
+  write: (emails: EmailResponse[]) => number;
+  finish: () => ExportFile;
+}
+
+interface FormatWriter {
+  // startIndex is the number of rows written before this page
+  write: (emails: EmailResponse[], startIndex: number) => void;
+  finish: (rowCount: number) => BlobPart[];
+}
+
+const FORMAT_WRITERS: Record<ExportFormat, (columns: ExportColumn[]) => FormatWriter> = {
+  xlsx: (columns) => {
+    const emails: EmailResponse[] = [];
+    return {
+      write: (page) => emails.push(...page),
+      finish: () => [workbookToBlob(convertEmailsToExcel(emails, columns))],
+    };
+  },
+  csv: (columns) => {
+    const parts: string[] = [csvHeader(getExportColumns(columns).map((column) => column.label))];
+    return {
+      write: (page) => parts.push(csvRows(page, columns)),
+      finish: () => parts,
+    };
+  },
+  merge: () => {
+    const parts: string[] = [csvHeader(MAIL_MERGE_HEADER)];
+    return {
+      write: (page) => parts.push(...page.map(toMailMergeRow)),
+      finish: () => parts,
+    };
+  },
+  json: () => {
+    const parts: string[] = [];
+    return {
+      write: (page, startIndex) =>
+        page.forEach((email, index) =>
+          parts.push(
+            (startIndex + index === 0 ? "" : ",\n") +
+              JSON.stringify(email, null, 2).replace(/^/gm, "  ")
+          )
+        ),
+      finish: (rowCount) => (rowCount === 0 ? ["[]\n"] : ["[\n", ...parts, "\n]\n"]),
+    };
+  },
+  markdown: (columns) => {
+    const parts: string[] = [];
+    return {
+      write: (page, startIndex) => parts.push(...markdownSections(page, columns, startIndex)),
+      finish: (rowCount) => [markdownTitle(rowCount), ...parts, "\n"],
+    };
+  },
+  eml: () => {
+    const files: Record<string, Uint8Array> = {};
+    return {
+      write: (page, startIndex) =>
+        page.forEach((email, index) => {
+          files[emlFilename(email, startIndex + index)] = strToU8(buildEmlMessage(email));
+        }),
+      finish: () => [zipSync(files) as Uint8Array<ArrayBuffer>],
+    };
+  },
+  mbox: () => {
+    const parts: string[] = [];
+    return {
+      write: (page) => parts.push(...page.map(toMboxEntry)),
+      finish: () => parts,
+    };
+  },
+};
+
+/**
+ * Create a writer for the given format
+ * basename gets a YYYY-MM-DD suffix, e.g. email-history-2025-01-31.csv
+ */
+export function createExportWriter(
+  { format, columns }: ExportOptions,
+  basename = "email-history"
+): ExportWriter {
+  const writer = FORMAT_WRITERS[format](columns);
+  let rowsWritten = 0;
+
+  return {
+    write: (emails) => {
+      writer.write(emails, rowsWritten);
+      rowsWritten += emails.length;
+      return rowsWritten;
+    },
+    finish: () => {
+      const timestamp = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
+      const { extension, mimeType, filenameSuffix = "" } = EXPORT_FORMATS[format];
+      return {
+        blob: new Blob(writer.finish(rowsWritten), { type: mimeType }),
+        filename: `${basename}${filenameSuffix}-${timestamp}.${extension}`,
+      };
+    },
+  };
+}
+
+/**
+ * Build the export file for emails that are already loaded
+ */
+export function buildExportFile(
+  emails: EmailResponse[],
+  options: ExportOptions,
+  basename?: string
+): ExportFile {
+  const writer = createExportWriter(options, basename);
+  writer.write(emails);
+  return writer.finish();
+}
+
+// ============================================================================
+// CSV (RFC 4180)
+// ============================================================================
+
+// Leading characters that make Excel and Sheets evaluate a cell as a formula
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+// Cells hold user- and LLM-written text, so formula-like values are prefixed
+// with ' to keep them as text when the file is opened in a spreadsheet
+function escapeCsvField(value: string): string {
+  const text = FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(fields: string[]): string {
+  return fields.map(escapeCsvField).join(",") + "\r\n";
+}
+
+// Header row, prefixed with a BOM so Excel opens the file as UTF-8
+function csvHeader(labels: string[]): string {
+  return "\uFEFF" + csvLine(labels);
+}
+
+function csvRows(emails: EmailResponse[], columns: ExportColumn[]): string {
+  const labels = getExportColumns(columns).map((column) => column.label);
+  return buildExportRows(emails, columns)
+    .map((row) => csvLine(labels.map((label) => String(row[label]))))
+    .join("");
+}
+
+// Column names recognised by Gmail and Outlook mail-merge add-ons
+const MAIL_MERGE_HEADER = ["To", "Subject", "Body"];
+
+// Emails without a recipient address keep an empty To cell to fill in by hand
+function toMailMergeRow(email: EmailResponse): string {
+  return csvLine([getRecipientEmail(email) ?? "", getResolvedSubject(email) ?? "", email.email_message]);
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+function escapeMarkdownInline(value: string): string {
+  return value.replace(/([\\`*_[\]<>#|])/g, "\\$1").replace(/\s*\n\s*/g, " ");
+}
+
+function markdownTitle(rowCount: number): string {
+  return `# Email History\n\n_${rowCount} email${rowCount === 1 ? "" : "s"}_`;
+}
+
+/**
+ * One section per email: selected fields as a list, the message as a quote
+ */
+function markdownSections(
+  emails: EmailResponse[],
+  columns: ExportColumn[],
+  startIndex: number
+): string[] {
+  const fields = getExportColumns(columns).filter(
+    (column) => column.key !== "recipient_name" && column.key !== "email_message"
+  );
+  const includeName = columns.includes("recipient_name");
+  const includeMessage = columns.includes("email_message");
+
+  return emails.map((email, index) => {
+    const number = startIndex + index + 1;
+    const heading = includeName
+      ? `## ${number}. ${escapeMarkdownInline(email.recipient_name)}`
+      : `## Email ${number}`;
+    const lines = [heading, ""];
+
+    for (const column of fields) {
+      const value = column.getValue(email);
+      const text = typeof value === "boolean" ? (value ? "Yes" : "No") : value || "—";
+      lines.push(`- **${column.label}:** ${escapeMarkdownInline(text)}`);
+    }
+
+    if (includeMessage) {
+      if (fields.length > 0) lines.push("");
+      lines.push(...email.email_message.split(/\r?\n/).map((line) => (line ? `> ${line}` : ">")));
+    }
+
+    return "\n\n---\n\n" + lines.join("\n");
+  });
+}
+
+// ============================================================================
+// RFC 5322 messages (.eml and mbox)
+// ============================================================================
+
+const CRLF = "\r\n";
+
+function base64Encode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/**
+ * RFC 2047 encoded-words for non-ASCII header values, folded so each stays
+ * within the 75 character limit without splitting a character
+ */
+function encodeHeaderValue(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    if (strToU8(chunk + char).length > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words.map((word) => `=?UTF-8?B?${base64Encode(strToU8(word))}?=`).join(`${CRLF} `);
+}
+
+// "Display Name" <address>, with non-ASCII names as encoded-words
+function formatAddress(name: string, address: string): string {
+  const displayName = /^[\x20-\x7e]*$/.test(name)
+    ? `"${name.replace(/["\\]/g, "\\$&")}"`
+    : encodeHeaderValue(name);
+  return `${displayName} <${address}>`;
+}
+
+// RFC 5322 date-time, always in UTC
+function formatRfc5322Date(iso: string): string {
+  return new Date(iso).toUTCString().replace("GMT", "+0000");
+}
+
+/**
+ * Unsent draft message for an email, CRLF line endings
+ * X-Unsent opens it as an editable draft in Outlook and Apple Mail.
+ * RFC 5322 requires a From field, so pass the sender when it is known.
+ */
+export function buildEmlMessage(email: EmailResponse, from?: string | null): string {
+  const to = getRecipientEmail(email);
+  const subject = getResolvedSubject(email);
+  const headers = [
+    ...(from ? [`From: ${from}`] : []),
+    `Date: ${formatRfc5322Date(email.created_at)}`,
+    `Message-ID: <${email.id}@scribe>`,
+    ...(to ? [`To: ${formatAddress(email.recipient_name, to)}`] : []),
+    ...(subject ? [`Subject: ${encodeHeaderValue(subject)}`] : []),
+    `X-Scribe-Recipient: ${encodeHeaderValue(email.recipient_name)}`,
+    "X-Unsent: 1",
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+  ];
+
+  // Base64 keeps every line under the 998 character limit regardless of content
+  const body = base64Encode(strToU8(email.email_message.replace(/\r?\n/g, CRLF)));
+  const bodyLines = body.match(/.{1,76}/g) ?? [];
+
+  return [...headers, "", ...bodyLines].join(CRLF) + CRLF;
+}
+
+function toFilenameSlug(value: string): string {
+  const slug = value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || "email";
+}
+
+/**
+ * Single .eml draft for one email, e.g. dr-jane-smith.eml
+ */
+export function buildEmlFile(email: EmailResponse, from?: string | null): ExportFile {
+  return {
+    blob: new Blob([buildEmlMessage(email, from)], { type: "message/rfc822" }),
+    filename: `${toFilenameSlug(email.recipient_name)}.eml`,
+  };
+}
+
+// Numbered so names never collide, e.g. 0001-jane-doe.eml
+function emlFilename(email: EmailResponse, index: number): string {
+  return `${String(index + 1).padStart(4, "0")}-${toFilenameSlug(email.recipient_name)}.eml`;
+}
+
+// asctime() format used on mbox "From " lines, e.g. "Mon Jan  6 09:05:00 2025"
+function formatAsctime(iso: string): string {
+  const [weekday, day, month, year, time] = new Date(iso).toUTCString().split(" ");
+  return `${weekday.replace(",", "")} ${month} ${day.replace(/^0/, " ")} ${time} ${year}`;
+}
+
+/**
+ * mboxrd entry: a "From " separator line, then the message with any line
+ * that already starts with ">*From " quoted one level deeper
+ */
+function toMboxEntry(email: EmailResponse): string {
+  const lines = buildEmlMessage(email)
+    .split(CRLF)
+    .map((line) => (/^>*From /.test(line) ? `>${line}` : line));
+  return `From MAILER-DAEMON ${formatAsctime(email.created_at)}\n${lines.join("\n")}\n`;
+}
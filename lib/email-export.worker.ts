@@ -0,0 +1,52 @@
+/**
+ * Email Export Worker
+ * Builds export files off the main thread. Pages are fetched by useEmailExport,
+ * which owns auth and cancellation, and posted here as they arrive.
+ */
+
+import { createExportWriter, type ExportFile, type ExportOptions, type ExportWriter } from "./email-export";
+import type { EmailResponse } from "./schemas";
+
+export type ExportWorkerRequest =
+  | { type: "start"; options: ExportOptions; basename?: string }
+  | { type: "page"; emails: EmailResponse[] }
+  | { type: "finish" };
+
+export type ExportWorkerResponse =
+  | { type: "progress"; rowsWritten: number }
+  | { type: "done"; file: ExportFile; rowsWritten: number }
+  | { type: "error"; message: string };
+
+let writer: ExportWriter | null = null;
+let rowsWritten = 0;
+
+function reply(message: ExportWorkerResponse): void {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<ExportWorkerRequest>) => {
+  const message = event.data;
+
+  try {
+    if (message.type === "start") {
+      writer = createExportWriter(message.options, message.basename);
+      rowsWritten = 0;
+      return;
+    }
+
+    if (!writer) {
+      throw new Error("Export has not been started");
+    }
+
+    if (message.type === "page") {
+      rowsWritten = writer.write(message.emails);
+      reply({ type: "progress", rowsWritten });
+      return;
+    }
+
+    reply({ type: "done", file: writer.finish(), rowsWritten });
+    writer = null;
+  } catch (error) {
+    reply({ type: "error", message: error instanceof Error ? error.message : "Export failed" });
+  }
+};
@@ -0,0 +1,120 @@
+/**
+ * Email History Filters
+ * Conversion between dashboard URL search params and API filter params
+ *
+ * URL params are kept short and readable:
+ *   ?q=neural&status=draft&type=research&from=2025-01-01&to=2025-02-01&sort=oldest
+ *
+ * ?view=trash switches the list to discarded emails.
+ */
+
+import {
+  EmailHistoryFiltersSchema,
+  EmailSortSchema,
+  type EmailHistoryFilters,
+  type EmailSort,
+} from "./schemas";
+
+export const DEFAULT_EMAIL_SORT: EmailSort = "newest";
+
+export const EMAIL_SORT_LABELS: Record<EmailSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  recipient_asc: "Recipient A-Z",
+  recipient_desc: "Recipient Z-A",
+};
+
+// URL param -> filter field
+const URL_KEYS: Record<string, keyof EmailHistoryFilters> = {
+  view: "displayed",
+  q: "search",
+  status: "is_confident",
+  type: "template_type",
+  from: "created_after",
+  to: "created_before",
+  sort: "sort",
+};
+
+/**
+ * Drop empty values and defaults so equivalent filters share a cache entry
+ */
+export function normalizeEmailFilters(filters: EmailHistoryFilters): EmailHistoryFilters {
+  const normalized: EmailHistoryFilters = {};
+
+  // Visible emails are the API default
+  if (filters.displayed === false) normalized.displayed = false;
+  const search = filters.search?.trim();
+  if (search) normalized.search = search;
+  if (filters.is_confident !== undefined) normalized.is_confident = filters.is_confident;
+  if (filters.template_type) normalized.template_type = filters.template_type;
+  if (filters.created_after) normalized.created_after = filters.created_after;
+  if (filters.created_before) normalized.created_before = filters.created_before;
+  if (filters.sort && filters.sort !== DEFAULT_EMAIL_SORT) normalized.sort = filters.sort;
+
+  return normalized;
+}
+
+/**
+ * Read filters from URL search params, ignoring invalid values
+ */
+export function parseEmailFilters(params: URLSearchParams): EmailHistoryFilters {
+  const status = params.get("status");
+  const sort = EmailSortSchema.safeParse(params.get("sort"));
+
+  const result = EmailHistoryFiltersSchema.safeParse({
+    displayed: params.get("view") === "trash" ? false : undefined,
+    search: params.get("q") ?? undefined,
+    is_confident: status === "confident" ? true : status === "draft" ? false : undefined,
+    template_type: params.get("type") ?? undefined,
+    created_after: params.get("from") ?? undefined,
+    created_before: params.get("to") ?? undefined,
+    sort: sort.success ? sort.data : undefined,
+  });
+
+  // A single bad param (e.g. a hand-edited date) shouldn't discard the rest
+  if (!result.success) {
+    const badKeys = new Set(result.error.issues.map((issue) => issue.path[0]));
+    return parseEmailFilters(
+      new URLSearchParams(
+        [...params.entries()].filter(([key]) => !badKeys.has(URL_KEYS[key] ?? key))
+      )
+    );
+  }
+
+  return normalizeEmailFilters(result.data);
+}
+
+/**
+ * Write filters into a copy of the current params, preserving unrelated ones
+ */
+export function serializeEmailFilters(
+  filters: EmailHistoryFilters,
+  current: URLSearchParams = new URLSearchParams()
+): URLSearchParams {
+  const params = new URLSearchParams(current);
+  for (const key of Object.keys(URL_KEYS)) {
+    params.delete(key);
+  }
+
+  const normalized = normalizeEmailFilters(filters);
+  if (normalized.displayed === false) params.set("view", "trash");
+  if (normalized.search) params.set("q", normalized.search);
+  if (normalized.is_confident !== undefined) {
+    params.set("status", normalized.is_confident ? "confident" : "draft");
+  }
+  if (normalized.template_type) params.set("type", normalized.template_type);
+  if (normalized.created_after) params.set("from", normalized.created_after);
+  if (normalized.created_before) params.set("to", normalized.created_before);
+  if (normalized.sort) params.set("sort", normalized.sort);
+
+  return params;
+}
+
+/**
+ * Whether any filter narrows the results (sort order and trash view don't count)
+ */
+export function hasActiveEmailFilters(filters: EmailHistoryFilters): boolean {
+  return Object.keys(normalizeEmailFilters(filters)).some(
+    (key) => key !== "sort" && key !== "displayed"
+  );
+}
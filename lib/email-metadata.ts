@@ -0,0 +1,91 @@
+/**
+ * Email Metadata Accessors
+ * Typed reads of the free-form EmailResponse.metadata record
+ */
+
+import type { EmailResponse } from "./schemas";
+import { fillInputVariables } from "./template-engine";
+
+/**
+ * Read a non-empty string field from email metadata
+ */
+export function getMetadataString(email: EmailResponse, key: string): string | null {
+  const value = email.metadata?.[key];
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+/**
+ * Template the email was generated from, when the backend recorded it
+ */
+export function getSourceTemplate(email: EmailResponse): string | null {
+  return getMetadataString(email, "email_template") ?? getMetadataString(email, "template");
+}
+
+/**
+ * Recipient address entered on the Generate grid, if any
+ */
+export function getRecipientEmail(email: EmailResponse): string | null {
+  return getMetadataString(email, "recipient_email");
+}
+
+/**
+ * Mail-merge subject template entered on the Generate grid, if any
+ */
+export function getSubjectTemplate(email: EmailResponse): string | null {
+  return getMetadataString(email, "subject_template");
+}
+
+/**
+ * Subject to send with: the user's own subject, otherwise the subject
+ * template with the recipient's name filled in
+ */
+export function getResolvedSubject(email: EmailResponse): string | null {
+  if (email.subject) return email.subject;
+  const template = getSubjectTemplate(email);
+  return template ? fillInputVariables(template, email) : null;
+}
+
+/**
+ * Id of the email this one was regenerated from, if any
+ */
+export function getRegeneratedFrom(email: EmailResponse): string | null {
+  return getMetadataString(email, "regenerated_from");
+}
+
+/**
+ * Group loaded emails with their regenerations
+ *
+ * Maps every email id to all versions in its chain (original first).
+ * Chains are followed back to the original, so regenerating a
+ * regeneration still groups with the first email.
+ */
+export function groupEmailVersions(emails: EmailResponse[]): Map<string, EmailResponse[]> {
+  const byId = new Map(emails.map((email) => [email.id, email]));
+
+  const rootOf = (email: EmailResponse): string => {
+    const seen = new Set<string>();
+    let current = email;
+    let parentId = getRegeneratedFrom(current);
+    while (parentId && byId.has(parentId) && !seen.has(parentId)) {
+      seen.add(parentId);
+      current = byId.get(parentId)!;
+      parentId = getRegeneratedFrom(current);
+    }
+    return current.id;
+  };
+
+  const chains = new Map<string, EmailResponse[]>();
+  for (const email of emails) {
+    const root = rootOf(email);
+    chains.set(root, [...(chains.get(root) ?? []), email]);
+  }
+
+  const versions = new Map<string, EmailResponse[]>();
+  for (const chain of chains.values()) {
+    chain.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    for (const email of chain) {
+      versions.set(email.id, chain);
+    }
+  }
+  return versions;
+}
@@ -1,17 +1,18 @@
 import { EmailResponse } from "./schemas";
 import * as XLSX from "xlsx";
+import { downloadBlob } from "./download";
+import { DEFAULT_EXPORT_COLUMNS, buildExportRows, type ExportColumn } from "./email-export-columns";
 
 /**
  * Convert EmailResponse array to Excel workbook
- * Columns: "Recipient Name", "Interest/Field", "Message"
+ * Default columns: "Recipient Name", "Interest/Field", "Message"
  */
-export function convertEmailsToExcel(emails: EmailResponse[]): XLSX.WorkBook {
-  // Map emails to row objects with new header names
-  const data = emails.map((email) => ({
-    "Recipient Name": email.recipient_name,
-    "Interest/Field": email.recipient_interest,
-    "Message": email.email_message || "",
-  }));
+export function convertEmailsToExcel(
+  emails: EmailResponse[],
+  columns: ExportColumn[] = DEFAULT_EXPORT_COLUMNS
+): XLSX.WorkBook {
+  // Map emails to row objects keyed by column header
+  const data = buildExportRows(emails, columns);
 
   // Create worksheet from data
   const worksheet = XLSX.utils.json_to_sheet(data);
@@ -24,29 +25,19 @@ export function convertEmailsToExcel(emails: EmailResponse[]): XLSX.WorkBook {
 }
 
 /**
- * Trigger Excel download in browser
- * Uses Blob API + URL.createObjectURL + synthetic anchor click
+ * Serialize a workbook to an .xlsx Blob
  */
-export function downloadExcel(workbook: XLSX.WorkBook, filename: string): void {
-  // Generate Excel file buffer
+export function workbookToBlob(workbook: XLSX.WorkBook): Blob {
   const excelBuffer = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
 
-  // Create blob with Excel MIME type
-  const blob = new Blob([excelBuffer], {
+  return new Blob([excelBuffer], {
     type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
   });
+}
 
-  const link = document.createElement("a");
-  const url = URL.createObjectURL(blob);
-
-  link.setAttribute("href", url);
-  link.setAttribute("download", filename);
-  link.style.visibility = "hidden";
-
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-
-  // Cleanup
-  URL.revokeObjectURL(url);
+/**
+ * Trigger Excel download in browser
+ */
+export function downloadExcel(workbook: XLSX.WorkBook, filename: string): void {
+  downloadBlob(workbookToBlob(workbook), filename);
 }
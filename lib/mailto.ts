@@ -0,0 +1,61 @@
+/**
+ * Mailto Links
+ * Builds RFC 6068 mailto: URIs so a generated email opens as a draft in the
+ * user's mail client
+ */
+
+// Outlook and some browsers truncate or refuse URIs much beyond 2,000 characters
+export const MAX_MAILTO_LENGTH = 2000;
+
+export interface MailtoDraft {
+  to?: string | null;
+  subject?: string | null;
+  body: string;
+}
+
+export interface MailtoLink {
+  href: string;
+  // False when the body was dropped to stay under MAX_MAILTO_LENGTH
+  includesBody: boolean;
+}
+
+/**
+ * Percent-encode an hfield value
+ *
+ * encodeURIComponent only leaves unreserved characters and !'()* unescaped,
+ * all of which RFC 6068 allows. Spaces become %20 (never "+"), and line
+ * breaks are normalized to CRLF, as section 5 requires for bodies.
+ */
+function encodeHfieldValue(value: string): string {
+  return encodeURIComponent(value.replace(/\r?\n/g, "\r\n"));
+}
+
+// Local part and domain are encoded separately so the "@" stays literal
+function encodeAddress(address: string): string {
+  const at = address.lastIndexOf("@");
+  if (at === -1) return encodeURIComponent(address);
+  return `${encodeURIComponent(address.slice(0, at))}@${encodeURIComponent(address.slice(at + 1))}`;
+}
+
+function joinMailto(to: string, hfields: string[]): string {
+  return hfields.length > 0 ? `mailto:${to}?${hfields.join("&")}` : `mailto:${to}`;
+}
+
+/**
+ * Build a mailto: link for a draft
+ *
+ * A missing address yields "mailto:?subject=..." so the client asks for one.
+ * If the full link would exceed MAX_MAILTO_LENGTH the body is left out and
+ * includesBody is false; callers should hand the body over another way.
+ */
+export function buildMailtoLink({ to, subject, body }: MailtoDraft): MailtoLink {
+  const address = to?.trim() ? encodeAddress(to.trim()) : "";
+  const hfields = subject ? [`subject=${encodeHfieldValue(subject)}`] : [];
+
+  const withBody = joinMailto(address, [...hfields, `body=${encodeHfieldValue(body)}`]);
+  if (withBody.length <= MAX_MAILTO_LENGTH) {
+    return { href: withBody, includesBody: true };
+  }
+
+  return { href: joinMailto(address, hfields), includesBody: false };
+}
@@ -0,0 +1,79 @@
+/**
+ * Browser Notifications
+ * Thin wrapper over the Web Notifications API, plus the text of the
+ * one-per-batch summary
+ */
+
+export type NotificationPermissionState = NotificationPermission | "unsupported";
+
+// Replaces an earlier summary instead of stacking a new one
+const BATCH_NOTIFICATION_TAG = "scribe-batch";
+
+export function getNotificationPermission(): NotificationPermissionState {
+  if (typeof window === "undefined" || !("Notification" in window)) return "unsupported";
+  return Notification.permission;
+}
+
+/**
+ * Ask for permission; must be called from a user gesture
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  const current = getNotificationPermission();
+  if (current !== "default") return current;
+  return Notification.requestPermission();
+}
+
+export interface BatchSummary {
+  completed: number;
+  failed: number;
+}
+
+/**
+ * Title and body for a finished batch, e.g. "48 emails ready" / "2 failed"
+ */
+export function describeBatchSummary({ completed, failed }: BatchSummary): {
+  title: string;
+  body: string;
+} {
+  const emails = (count: number) => `${count} email${count === 1 ? "" : "s"}`;
+
+  if (failed === 0) {
+    return { title: `${emails(completed)} ready`, body: "Your batch finished. Open Scribe to review them." };
+  }
+  if (completed === 0) {
+    return { title: `${emails(failed)} failed`, body: "Open the queue to see why and retry." };
+  }
+  return {
+    title: `Batch finished with ${failed} failure${failed === 1 ? "" : "s"}`,
+    body: `${emails(completed)} ready · ${failed} failed`,
+  };
+}
+
+/**
+ * Show the batch summary; clicking it focuses the tab
+ *
+ * @returns false without permission (e.g. it was revoked since opting in), or
+ * where pages can't construct notifications (Chrome for Android throws
+ * "Illegal constructor" and only allows service worker notifications)
+ */
+export function showBatchNotification(summary: BatchSummary): boolean {
+  if (getNotificationPermission() !== "granted") return false;
+
+  const { title, body } = describeBatchSummary(summary);
+  let notification: Notification;
+  try {
+    notification = new Notification(title, {
+      body,
+      tag: BATCH_NOTIFICATION_TAG,
+      icon: "/favicon.ico",
+    });
+  } catch {
+    return false;
+  }
+
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+  return true;
+}
@@ -9,6 +9,8 @@
  * - Prevents typos and key conflicts
  */
 
+import type { EmailHistoryFilters } from './schemas';
+
 /**
  * Query key factory for user-related queries
  */
@@ -46,8 +48,9 @@ export const queryKeys = {
       [...queryKeys.emails.lists(), { limit, offset }] as const,
 
     // Infinite scroll email history for a specific user
-    infinite: (userId: string) =>
-      [...queryKeys.emails.all, 'infinite', userId] as const,
+    // (each filter combination caches separately; pass normalized filters)
+    infinite: (userId: string, filters: EmailHistoryFilters = {}) =>
+      [...queryKeys.emails.all, 'infinite', userId, filters] as const,
 
     // Base key for all infinite queries (for invalidation)
     infiniteAll: () => [...queryKeys.emails.all, 'infinite'] as const,
@@ -78,6 +81,12 @@ export const queryKeys = {
     // Individual template detail
     detail: (templateId: string) =>
       [...queryKeys.templates.all, 'detail', templateId] as const,
+
+    // Named templates saved by the user (template library)
+    saved: () => [...queryKeys.templates.all, 'saved'] as const,
+
+    // Version history of the profile email_template
+    history: () => [...queryKeys.templates.all, 'history'] as const,
   },
 
   // Queue domain keys (database-backed batch queue)
@@ -87,6 +96,13 @@ export const queryKeys = {
 
     // Queue items for current user
     items: () => [...queryKeys.queue.all, 'items'] as const,
+
+    // Step progress for one queue item (written by the SSE stream, never fetched)
+    progress: (itemId: string) =>
+      [...queryKeys.queue.all, 'progress', itemId] as const,
+
+    // Batches saved in the IndexedDB outbox that haven't reached the API yet
+    outbox: () => [...queryKeys.queue.all, 'outbox'] as const,
   },
 } as const;
 
@@ -0,0 +1,123 @@
+/**
+ * Queue Cache Helpers
+ * Applies queue row changes (from Supabase Realtime) and optimistic queue
+ * actions to the cached GET /api/queue/ list
+ */
+
+import { QueueItemSchema, type QueueItem, type QueueStatus } from "./schemas";
+
+export type QueueRowChange =
+  | { type: "upsert"; row: Record<string, unknown> }
+  | { type: "delete"; id: string };
+
+// Realtime sends timestamptz as "2025-01-06 09:05:00.123+00"; the schema expects UTC ISO
+function normalizeTimestamp(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+// Items waiting for a worker; paused items keep their place in line
+export function isQueued(item: QueueItem): boolean {
+  return item.status === "pending" || item.status === "paused";
+}
+
+// Queued items in position order (oldest first when positions tie)
+export function getQueuedItems(items: QueueItem[]): QueueItem[] {
+  return items
+    .filter(isQueued)
+    .sort(
+      (a, b) =>
+        (a.position ?? Infinity) - (b.position ?? Infinity) ||
+        a.created_at.localeCompare(b.created_at)
+    );
+}
+
+/**
+ * Close gaps in queued positions, keeping their relative order
+ *
+ * Positions are assigned by the API, so an item leaving the queue (or being
+ * cancelled) would otherwise leave a hole until the next refetch.
+ */
+function renumberPendingPositions(items: QueueItem[]): QueueItem[] {
+  const positions = new Map(getQueuedItems(items).map((item, index) => [item.id, index + 1]));
+
+  return items.map((item) => {
+    const position = positions.get(item.id) ?? null;
+    return position === item.position ? item : { ...item, position };
+  });
+}
+
+/**
+ * Apply a row change to the cached queue items
+ *
+ * Rows are merged over the cached item, so columns the API derives (like
+ * position) survive partial rows. Idempotent: applying the same change twice
+ * gives the same list.
+ *
+ * @returns The patched list, or null if the row doesn't match QueueItemSchema
+ * and the list should be refetched instead
+ */
+export function applyQueueRowChange(
+  items: QueueItem[] | undefined,
+  change: QueueRowChange
+): QueueItem[] | null {
+  const current = items ?? [];
+
+  if (change.type === "delete") {
+    return renumberPendingPositions(current.filter((item) => item.id !== change.id));
+  }
+
+  const existing = current.find((item) => item.id === change.row.id);
+  const parsed = QueueItemSchema.safeParse({
+    position: null,
+    source_email_id: null,
+    ...existing,
+    ...change.row,
+    created_at: normalizeTimestamp(change.row.created_at ?? existing?.created_at),
+  });
+  if (!parsed.success) return null;
+
+  const next = existing
+    ? current.map((item) => (item.id === parsed.data.id ? parsed.data : item))
+    : [...current, parsed.data];
+
+  return renumberPendingPositions(next);
+}
+
+/**
+ * Move every item in one status to another (pause/resume the queue)
+ */
+export function setQueueItemsStatus(
+  items: QueueItem[],
+  from: QueueStatus,
+  to: QueueStatus
+): QueueItem[] {
+  return items.map((item) => (item.status === from ? { ...item, status: to } : item));
+}
+
+/**
+ * Remove items from the queue (cancel), closing the gaps they leave
+ */
+export function removeQueueItems(items: QueueItem[], ids: string[]): QueueItem[] {
+  const removed = new Set(ids);
+  return renumberPendingPositions(items.filter((item) => !removed.has(item.id)));
+}
+
+/**
+ * Put queued items in the given order; unlisted queued items follow in
+ * their current order (matches PUT /api/queue/order)
+ */
+export function reorderQueueItems(items: QueueItem[], orderedIds: string[]): QueueItem[] {
+  const queued = getQueuedItems(items);
+  const listed = orderedIds
+    .map((id) => queued.find((item) => item.id === id))
+    .filter((item): item is QueueItem => item !== undefined);
+  const rest = queued.filter((item) => !orderedIds.includes(item.id));
+  const positions = new Map([...listed, ...rest].map((item, index) => [item.id, index + 1]));
+
+  return items.map((item) => {
+    const position = positions.get(item.id);
+    return position === undefined || position === item.position ? item : { ...item, position };
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Queue Timeline
+ * Pipeline step labels and durations, and the per-item timeline in the queue
+ * panel, built from the queue item plus its streamed step progress if any
+ */
+
+import type { QueueItem, QueueItemProgress } from "./schemas";
+
+/**
+ * Generation pipeline steps, in the order the worker runs them
+ */
+export const PIPELINE_STEPS: Record<string, string> = {
+  template_parser: "Parse template",
+  web_scraper: "Research recipient",
+  arxiv_helper: "Find publications",
+  email_composer: "Compose email",
+};
+
+export type TimelineState = "done" | "active" | "waiting" | "skipped" | "failed";
+
+export interface TimelineEntry {
+  key: string;
+  label: string;
+  state: TimelineState;
+  // Time spent in the step; only known once it finishes
+  seconds: number | null;
+}
+
+export function getStepLabel(step: string): string {
+  return PIPELINE_STEPS[step] ?? step.replace(/_/g, " ");
+}
+
+/**
+ * Build the timeline: queued (or paused), each pipeline step, then completed/failed
+ *
+ * Steps the backend reports that aren't in PIPELINE_STEPS are shown after the
+ * known ones. A step without a timing that the pipeline moved past was
+ * skipped (e.g. no publications to look up), unless no timings are known.
+ */
+export function buildQueueTimeline(
+  item: QueueItem,
+  progress?: QueueItemProgress
+): TimelineEntry[] {
+  const timings = progress?.step_timings ?? {};
+  const currentStep = progress?.current_step ?? item.current_step;
+
+  const steps = Object.keys(PIPELINE_STEPS);
+  for (const step of [...Object.keys(timings), currentStep]) {
+    if (step && !steps.includes(step)) steps.push(step);
+  }
+  const currentIndex = currentStep ? steps.indexOf(currentStep) : -1;
+  const hasTimings = Object.keys(timings).length > 0;
+
+  const stepEntries = steps.map((key, index): TimelineEntry => {
+    const seconds = timings[key] ?? null;
+    let state: TimelineState = "waiting";
+
+    if (key === currentStep && item.status === "failed") {
+      state = "failed";
+    } else if (seconds !== null) {
+      state = "done";
+    } else if (key === currentStep && item.status === "processing") {
+      state = "active";
+    } else if (index < currentIndex || item.status === "completed") {
+      // Without streamed timings (e.g. after a reload) assume the step ran
+      state = hasTimings ? "skipped" : "done";
+    }
+
+    return { key, label: getStepLabel(key), state, seconds };
+  });
+
+  const position = item.position ? ` (#${item.position})` : "";
+  const queued: TimelineEntry =
+    item.status === "paused"
+      ? { key: "pending", label: `Paused${position}`, state: "waiting", seconds: null }
+      : {
+          key: "pending",
+          label: item.status === "pending" ? `Queued${position}` : "Queued",
+          state: item.status === "pending" ? "active" : "done",
+          seconds: null,
+        };
+
+  const outcome: TimelineEntry =
+    item.status === "failed"
+      ? { key: "failed", label: "Failed", state: "failed", seconds: null }
+      : { key: "completed", label: "Completed", state: item.status === "completed" ? "done" : "waiting", seconds: null };
+
+  return [queued, ...stepEntries, outcome];
+}
+
+/**
+ * Format a step duration, e.g. 0.4 -> "0.4s", 75 -> "1m 15s"
+ */
+export function formatStepDuration(seconds: number): string {
+  if (seconds < 10) return `${seconds.toFixed(1)}s`;
+  const rounded = Math.round(seconds);
+  if (rounded < 60) return `${rounded}s`;
+  return `${Math.floor(rounded / 60)}m ${rounded % 60}s`;
+}
@@ -0,0 +1,210 @@
+/**
+ * Recipient Import
+ * Parses CSV/XLSX recipient lists into validated BatchItems for the batch grid
+ */
+
+import * as XLSX from "xlsx";
+import { BatchItemSchema, type BatchItem } from "./schemas";
+import { IMPORT_ERRORS } from "@/constants/error-messages";
+
+const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+export const RECIPIENT_IMPORT_ACCEPT =
+  ".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel";
+
+const NAME_HEADER_PATTERN = /name|professor|recipient|faculty/i;
+const INTEREST_HEADER_PATTERN = /interest|field|research|topic|area|focus/i;
+const EMAIL_HEADER_PATTERN = /e-?mail|address/i;
+const SUBJECT_HEADER_PATTERN = /subject/i;
+
+export class RecipientImportError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = "RecipientImportError";
+    Object.setPrototypeOf(this, RecipientImportError.prototype);
+  }
+
+  getUserMessage(): string {
+    if (this.code === "UNSUPPORTED_FILE_TYPE") {
+      return IMPORT_ERRORS.UNSUPPORTED_FILE_TYPE.user;
+    }
+    if (this.code === "FILE_TOO_LARGE") {
+      return IMPORT_ERRORS.FILE_TOO_LARGE.user;
+    }
+    if (this.code === "EMPTY_FILE") {
+      return IMPORT_ERRORS.EMPTY_FILE.user;
+    }
+    return IMPORT_ERRORS.PARSE_FAILED.user;
+  }
+}
+
+/**
+ * First worksheet of an uploaded file, keyed by header row
+ */
+export interface ParsedSheet {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, string>[];
+  // 1-indexed spreadsheet row of each entry in rows (blank rows are dropped)
+  rowNumbers: number[];
+}
+
+/**
+ * Which spreadsheet column feeds each BatchItem field
+ * email and subject are optional mail-merge columns
+ */
+export interface ColumnMapping {
+  name: string | null;
+  interest: string | null;
+  email: string | null;
+  subject: string | null;
+}
+
+export interface ImportedRow {
+  // 1-indexed spreadsheet row, as shown in Excel or Sheets
+  rowNumber: number;
+  item: BatchItem;
+  errors: string[];
+}
+
+function isCsvFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith(".csv") || file.type === "text/csv";
+}
+
+function isSpreadsheetFile(file: File): boolean {
+  return /\.(xlsx|xls)$/i.test(file.name);
+}
+
+/**
+ * Read the first worksheet of a CSV/XLSX file
+ *
+ * CSV files are decoded as UTF-8 text so accented names survive;
+ * XLSX files are read from their binary buffer.
+ *
+ * @throws {RecipientImportError} If the file is unsupported, too large or empty
+ */
+export async function parseRecipientFile(file: File): Promise<ParsedSheet> {
+  if (!isCsvFile(file) && !isSpreadsheetFile(file)) {
+    throw new RecipientImportError(
+      IMPORT_ERRORS.UNSUPPORTED_FILE_TYPE.dev,
+      "UNSUPPORTED_FILE_TYPE"
+    );
+  }
+
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    throw new RecipientImportError(IMPORT_ERRORS.FILE_TOO_LARGE.dev, "FILE_TOO_LARGE");
+  }
+
+  let matrix: unknown[][] = [];
+  // 0-indexed sheet row of matrix[0]; the used range may not start at row 1
+  let firstRow = 0;
+  try {
+    const workbook = isCsvFile(file)
+      ? XLSX.read(await file.text(), { type: "string" })
+      : XLSX.read(await file.arrayBuffer(), { type: "array" });
+
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (sheet) {
+      // Keep blank rows so matrix indexes map back to spreadsheet rows
+      matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+        header: 1,
+        defval: "",
+        raw: false,
+        blankrows: true,
+      });
+      firstRow = sheet["!ref"] ? XLSX.utils.decode_range(sheet["!ref"]).s.r : 0;
+    }
+  } catch {
+    throw new RecipientImportError(IMPORT_ERRORS.PARSE_FAILED.dev, "PARSE_FAILED");
+  }
+
+  const [headerRow, ...dataRows] = matrix
+    .map((cells, index) => ({ cells, rowNumber: firstRow + index + 1 }))
+    .filter(({ cells }) => cells.some((cell) => String(cell ?? "").trim() !== ""));
+
+  // Blank or duplicate headers get a positional fallback so every column stays
+  // selectable; fallbacks skip names a real header already uses
+  const labels = (headerRow?.cells ?? []).map((cell) => String(cell ?? "").trim());
+  const taken = new Set(labels);
+  const seen = new Set<string>();
+  const headers = labels.map((label, index) => {
+    let header = label && !seen.has(label) ? label : `Column ${index + 1}`;
+    for (let n = 2; seen.has(header) || (header !== label && taken.has(header)); n++) {
+      header = `Column ${index + 1} (${n})`;
+    }
+    seen.add(header);
+    return header;
+  });
+
+  const rows = dataRows.map(({ cells }) =>
+    Object.fromEntries(
+      headers.map((header, index) => [header, String(cells[index] ?? "").trim()])
+    )
+  );
+
+  if (headers.length === 0 || rows.length === 0) {
+    throw new RecipientImportError(IMPORT_ERRORS.EMPTY_FILE.dev, "EMPTY_FILE");
+  }
+
+  return {
+    fileName: file.name,
+    headers,
+    rows,
+    rowNumbers: dataRows.map(({ rowNumber }) => rowNumber),
+  };
+}
+
+/**
+ * Pick the most likely columns from the header row
+ *
+ * Email and subject are only mapped when a header clearly matches, and are
+ * never picked as the name or interest column ("Recipient Email" is not a name).
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const email = headers.find((h) => EMAIL_HEADER_PATTERN.test(h)) ?? null;
+  const subject = headers.find((h) => h !== email && SUBJECT_HEADER_PATTERN.test(h)) ?? null;
+  const candidates = headers.filter((h) => h !== email && h !== subject);
+
+  const name = candidates.find((h) => NAME_HEADER_PATTERN.test(h)) ?? candidates[0] ?? null;
+  const interest =
+    candidates.find((h) => h !== name && INTEREST_HEADER_PATTERN.test(h)) ??
+    candidates.find((h) => h !== name) ??
+    null;
+
+  return { name, interest, email, subject };
+}
+
+/**
+ * Map sheet rows to BatchItems and validate each against BatchItemSchema
+ *
+ * Rows where both mapped cells are empty are skipped entirely.
+ */
+export function buildImportedRows(
+  sheet: ParsedSheet,
+  mapping: ColumnMapping
+): ImportedRow[] {
+  return sheet.rows
+    .map((row, index) => {
+      const item: BatchItem = {
+        recipient_name: mapping.name ? row[mapping.name] ?? "" : "",
+        recipient_interest: mapping.interest ? row[mapping.interest] ?? "" : "",
+      };
+      // Blank optional cells are left off so they don't fail validation
+      const email = mapping.email ? row[mapping.email] : "";
+      const subject = mapping.subject ? row[mapping.subject] : "";
+      if (email) item.recipient_email = email;
+      if (subject) item.subject_template = subject;
+
+      const result = BatchItemSchema.safeParse(item);
+
+      return {
+        rowNumber: sheet.rowNumbers[index],
+        item,
+        errors: result.success ? [] : result.error.issues.map((issue) => issue.message),
+      };
+    })
+    .filter((row) => row.item.recipient_name || row.item.recipient_interest);
+}
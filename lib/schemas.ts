@@ -62,6 +62,7 @@ export const EmailResponseSchema = z.object({
   recipient_name: z.string(),
   recipient_interest: z.string(),
   email_message: z.string(),
+  subject: z.string().nullish(),
   template_type: z.string(), // Could be TemplateTypeSchema but backend might return string
   metadata: z.record(z.string(), z.unknown()).nullable(),
   is_confident: z.boolean(),
@@ -77,13 +78,61 @@ export const EmailHistorySchema = z.array(EmailResponseSchema);
 export type EmailHistory = z.infer<typeof EmailHistorySchema>;
 
 /**
- * Update email request schema - PATCH /api/email/{email_id}
+ * Email history sort order - `sort` query param on GET /api/email/
  */
-export const UpdateEmailRequestSchema = z.object({
-  displayed: z.boolean(),
+export const EmailSortSchema = z.enum(["newest", "oldest", "recipient_asc", "recipient_desc"]);
+export type EmailSort = z.infer<typeof EmailSortSchema>;
+
+/**
+ * Email history filters - query params on GET /api/email/
+ *
+ * search matches recipient name, interest and message (case-insensitive).
+ * Dates are inclusive YYYY-MM-DD bounds on created_at.
+ * displayed=false lists discarded emails (trash) instead of visible ones.
+ */
+export const EmailHistoryFiltersSchema = z.object({
+  displayed: z.boolean().optional(),
+  search: z.string().trim().max(200).optional(),
+  is_confident: z.boolean().optional(),
+  template_type: z.string().optional(),
+  created_after: z.string().date().optional(),
+  created_before: z.string().date().optional(),
+  sort: EmailSortSchema.optional(),
 });
+export type EmailHistoryFilters = z.infer<typeof EmailHistoryFiltersSchema>;
+
+/**
+ * Update email request schema - PATCH /api/email/{email_id}
+ *
+ * Partial update: visibility toggle and/or user edits to subject and body
+ */
+export const UpdateEmailRequestSchema = z
+  .object({
+    displayed: z.boolean().optional(),
+    subject: z.string().trim().max(200, "Subject too long (max 200 characters)").nullable().optional(),
+    email_message: z
+      .string()
+      .max(10000, "Email too long (max 10,000 characters)")
+      .refine((val) => val.trim().length > 0, {
+        message: "Email body cannot be empty",
+      })
+      .optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
 export type UpdateEmailRequest = z.infer<typeof UpdateEmailRequestSchema>;
 
+/**
+ * Delete email response schema - DELETE /api/email/{email_id}
+ *
+ * Permanent; only discarded emails can be deleted
+ */
+export const DeleteEmailResponseSchema = z.object({
+  message: z.string(),
+});
+export type DeleteEmailResponse = z.infer<typeof DeleteEmailResponseSchema>;
+
 /**
  * User profile schema - GET /api/user and POST /api/user/init
  */
@@ -126,6 +175,64 @@ export type TemplateResponse = z.infer<typeof TemplateResponseSchema>;
 export const TemplateListSchema = z.array(TemplateResponseSchema);
 export type TemplateList = z.infer<typeof TemplateListSchema>;
 
+/**
+ * Saved template schema - GET /api/templates/saved and POST /api/templates/saved
+ *
+ * Named, user-authored templates (distinct from AI-generated TemplateResponse)
+ */
+export const SavedTemplateSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  name: z.string(),
+  template_text: z.string(),
+  is_default: z.boolean(),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+});
+export type SavedTemplate = z.infer<typeof SavedTemplateSchema>;
+
+/**
+ * Saved template list schema - GET /api/templates/saved
+ */
+export const SavedTemplateListSchema = z.array(SavedTemplateSchema);
+export type SavedTemplateList = z.infer<typeof SavedTemplateListSchema>;
+
+/**
+ * Saved template name validation - shared by create and rename
+ */
+export const SavedTemplateNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name cannot be empty")
+  .max(80, "Name too long (max 80 characters)");
+
+/**
+ * Create saved template request schema - POST /api/templates/saved
+ */
+export const CreateSavedTemplateRequestSchema = z.object({
+  name: SavedTemplateNameSchema,
+  template_text: z
+    .string()
+    .min(1, "Template cannot be empty")
+    .max(10000, "Template too long (max 10,000 characters)"),
+  is_default: z.boolean().optional(),
+});
+export type CreateSavedTemplateRequest = z.infer<typeof CreateSavedTemplateRequestSchema>;
+
+/**
+ * Update saved template request schema - PATCH /api/templates/saved/{id}
+ */
+export const UpdateSavedTemplateRequestSchema = CreateSavedTemplateRequestSchema.partial();
+export type UpdateSavedTemplateRequest = z.infer<typeof UpdateSavedTemplateRequestSchema>;
+
+/**
+ * Delete saved template response schema - DELETE /api/templates/saved/{id}
+ */
+export const DeleteSavedTemplateResponseSchema = z.object({
+  message: z.string(),
+});
+export type DeleteSavedTemplateResponse = z.infer<typeof DeleteSavedTemplateResponseSchema>;
+
 /**
  * Extended user profile with template_count - GET /api/user/profile
  */
@@ -152,14 +259,34 @@ export const TemplateUpdateSchema = z.object({
 });
 export type TemplateUpdate = z.infer<typeof TemplateUpdateSchema>;
 
+/**
+ * Template version schema - snapshot of email_template taken on each save
+ *
+ * Also used for snapshots kept locally in IndexedDB (see lib/template-history.ts)
+ */
+export const TemplateVersionSchema = z.object({
+  id: z.string().uuid(),
+  template_text: z.string(),
+  created_at: z.string().datetime(),
+});
+export type TemplateVersion = z.infer<typeof TemplateVersionSchema>;
+
+/**
+ * Template version list schema - GET /api/user/template/versions (newest first)
+ */
+export const TemplateVersionListSchema = z.array(TemplateVersionSchema);
+export type TemplateVersionList = z.infer<typeof TemplateVersionListSchema>;
+
 // ============================================================================
 // Queue Schemas
 // ============================================================================
 
 /**
  * Queue item status enum
+ *
+ * paused items keep their position but aren't picked up until resumed
  */
-export const QueueStatusSchema = z.enum(["pending", "processing", "completed", "failed"]);
+export const QueueStatusSchema = z.enum(["pending", "paused", "processing", "completed", "failed"]);
 export type QueueStatus = z.infer<typeof QueueStatusSchema>;
 
 /**
@@ -173,10 +300,34 @@ export const QueueItemSchema = z.object({
   email_id: z.string().uuid().nullable(),
   error_message: z.string().nullable(),
   current_step: z.string().nullable(),
+  source_email_id: z.string().uuid().nullish(), // Set when regenerating an existing email
   created_at: z.string().datetime(),
 });
 export type QueueItem = z.infer<typeof QueueItemSchema>;
 
+/**
+ * Queue item step progress - same step fields as TaskStatusResponse.result
+ *
+ * step_timings maps each finished step to its duration in seconds.
+ */
+export const QueueItemProgressSchema = z.object({
+  current_step: z.string().nullable(),
+  step_status: z.string().nullish(),
+  step_timings: z.record(z.string(), z.number()).nullish(),
+});
+export type QueueItemProgress = z.infer<typeof QueueItemProgressSchema>;
+
+/**
+ * Queue progress event schema - "progress" events on GET /api/queue/events (SSE)
+ *
+ * Sent on every step transition of one of the user's queue items.
+ */
+export const QueueProgressEventSchema = QueueItemProgressSchema.extend({
+  queue_item_id: z.string().uuid(),
+  status: QueueStatusSchema,
+});
+export type QueueProgressEvent = z.infer<typeof QueueProgressEventSchema>;
+
 /**
  * Queue items list schema - GET /api/queue/
  */
@@ -185,10 +336,15 @@ export type QueueItems = z.infer<typeof QueueItemsSchema>;
 
 /**
  * Batch submit request schema - POST /api/queue/batch
+ *
+ * recipient_email and subject_template are optional mail-merge fields. The
+ * backend copies them into the generated email's metadata untouched.
  */
 export const BatchItemSchema = z.object({
   recipient_name: z.string().min(2, "Name must be at least 2 characters"),
   recipient_interest: z.string().min(2, "Interest must be at least 2 characters"),
+  recipient_email: z.string().email("Enter a valid email address").optional(),
+  subject_template: z.string().max(200, "Subject too long (max 200 characters)").optional(),
 });
 export type BatchItem = z.infer<typeof BatchItemSchema>;
 
@@ -201,6 +357,30 @@ export const BatchSubmitResponseSchema = z.object({
 });
 export type BatchSubmitResponse = z.infer<typeof BatchSubmitResponseSchema>;
 
+/**
+ * Regenerate email request schema - POST /api/queue/regenerate
+ *
+ * Queues a single item for an existing email's recipient. The new email
+ * records the original's id in metadata.regenerated_from.
+ */
+export const RegenerateEmailRequestSchema = BatchItemSchema.extend({
+  source_email_id: z.string().uuid(),
+  email_template: TemplateUpdateSchema.shape.template,
+});
+export type RegenerateEmailRequest = z.infer<typeof RegenerateEmailRequestSchema>;
+
+/**
+ * Retry queue items request schema - POST /api/queue/retry
+ *
+ * Failed items go back to pending with their original recipient, interest and
+ * template. The response's queue_item_ids lists the items re-queued; ids that
+ * are no longer failed are skipped.
+ */
+export const RetryQueueItemsRequestSchema = z.object({
+  queue_item_ids: z.array(z.string().uuid()).min(1, "Nothing to retry"),
+});
+export type RetryQueueItemsRequest = z.infer<typeof RetryQueueItemsRequestSchema>;
+
 /**
  * Cancel queue item response schema - DELETE /api/queue/{id}
  */
@@ -208,3 +388,37 @@ export const CancelQueueItemResponseSchema = z.object({
   message: z.string(),
 });
 export type CancelQueueItemResponse = z.infer<typeof CancelQueueItemResponseSchema>;
+
+/**
+ * Cancel queue items request schema - POST /api/queue/cancel
+ *
+ * Only pending and paused items can be cancelled; others are skipped.
+ */
+export const CancelQueueItemsRequestSchema = z.object({
+  queue_item_ids: z.array(z.string().uuid()).min(1, "Nothing to cancel"),
+});
+export type CancelQueueItemsRequest = z.infer<typeof CancelQueueItemsRequestSchema>;
+
+/**
+ * Reorder queue request schema - PUT /api/queue/order
+ *
+ * The user's pending and paused items in their new order; positions are
+ * reassigned 1..n. Items missing from the list keep their relative order
+ * after the listed ones.
+ */
+export const ReorderQueueRequestSchema = z.object({
+  queue_item_ids: z.array(z.string().uuid()).min(1, "Nothing to reorder"),
+});
+export type ReorderQueueRequest = z.infer<typeof ReorderQueueRequestSchema>;
+
+/**
+ * Bulk queue action response schema - POST /api/queue/pause, POST
+ * /api/queue/resume, POST /api/queue/cancel and PUT /api/queue/order
+ *
+ * queue_item_ids lists the items the action changed
+ */
+export const QueueBulkActionResponseSchema = z.object({
+  queue_item_ids: z.array(z.string().uuid()),
+  message: z.string(),
+});
+export type QueueBulkActionResponse = z.infer<typeof QueueBulkActionResponseSchema>;
@@ -0,0 +1,72 @@
+/**
+ * Supabase Realtime Service
+ * Listens to the current user's queue rows over a Realtime channel
+ */
+
+import {
+  REALTIME_SUBSCRIBE_STATES,
+  type RealtimePostgresChangesPayload,
+} from "@supabase/supabase-js";
+import { supabase } from "@/config/supabase";
+import { createLogger } from "@/utils/logger";
+import type { QueueRowChange } from "@/lib/queue-cache";
+
+const logger = createLogger("QueueRealtime");
+
+// Backing table for /api/queue/
+const QUEUE_TABLE = "queue_items";
+
+export type RealtimeStatus = "connecting" | "connected" | "disconnected";
+
+interface QueueSubscriptionHandlers {
+  onChange: (change: QueueRowChange) => void;
+  onStatusChange: (status: RealtimeStatus) => void;
+}
+
+/**
+ * Subscribe to INSERT/UPDATE/DELETE on the user's queue rows
+ *
+ * DELETE events can't be filtered by column (only the primary key is sent),
+ * so they arrive for every user; callers only ever remove ids they hold.
+ * The channel rejoins on its own after errors; onStatusChange reports each
+ * transition so callers can fall back to polling meanwhile.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeToQueueChanges(
+  userId: string,
+  { onChange, onStatusChange }: QueueSubscriptionHandlers
+): () => void {
+  const handleRow = (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+    if (payload.eventType === "DELETE") {
+      const id = payload.old.id;
+      if (typeof id === "string") onChange({ type: "delete", id });
+      return;
+    }
+    onChange({ type: "upsert", row: payload.new });
+  };
+
+  const filter = `user_id=eq.${userId}`;
+  onStatusChange("connecting");
+
+  const channel = supabase
+    .channel(`queue:${userId}`)
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: QUEUE_TABLE, filter }, handleRow)
+    .on("postgres_changes", { event: "UPDATE", schema: "public", table: QUEUE_TABLE, filter }, handleRow)
+    .on("postgres_changes", { event: "DELETE", schema: "public", table: QUEUE_TABLE }, handleRow)
+    .subscribe((status, error) => {
+      if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+        logger.info("Queue channel subscribed");
+        onStatusChange("connected");
+        return;
+      }
+      if (error) {
+        logger.warn("Queue channel error", { status, error: error.message });
+      }
+      onStatusChange("disconnected");
+    });
+
+  return () => {
+    void supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * Template Engine
+ * Tokenizes {{variable}} placeholders, validates them and renders previews
+ */
+
+import type { BatchItem } from "./schemas";
+
+/**
+ * Placeholders the generation pipeline knows how to fill
+ */
+export const TEMPLATE_VARIABLES = [
+  {
+    name: "professor_name",
+    description: "Recipient's name",
+    sample: (item: BatchItem) => item.recipient_name,
+  },
+  {
+    name: "research_paper",
+    description: "A paper found for the recipient's interest",
+    sample: (item: BatchItem) => `[a recent paper on ${item.recipient_interest}]`,
+  },
+  {
+    name: "university_name",
+    description: "Recipient's university",
+    sample: () => "[their university]",
+  },
+] as const;
+
+export type TemplateVariableName = (typeof TEMPLATE_VARIABLES)[number]["name"];
+
+const KNOWN_VARIABLES = new Set<string>(TEMPLATE_VARIABLES.map((v) => v.name));
+
+const VARIABLE_NAME_PATTERN = /^[a-z_][a-z0-9_]*$/i;
+
+export type TemplateToken =
+  | { type: "text"; value: string; start: number; end: number }
+  | { type: "variable"; name: string; raw: string; known: boolean; start: number; end: number }
+  | { type: "malformed"; raw: string; start: number; end: number };
+
+export interface TemplateIssue {
+  severity: "error" | "warning";
+  message: string;
+  raw: string;
+  start: number;
+  end: number;
+}
+
+export interface TemplateAnalysis {
+  tokens: TemplateToken[];
+  issues: TemplateIssue[];
+  variables: string[];
+  hasErrors: boolean;
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Closest known variable for a typo, if one is reasonably close
+ */
+export function suggestVariable(name: string): TemplateVariableName | null {
+  let best: TemplateVariableName | null = null;
+  let bestDistance = Infinity;
+
+  for (const variable of TEMPLATE_VARIABLES) {
+    const distance = levenshtein(name.toLowerCase(), variable.name);
+    if (distance < bestDistance) {
+      best = variable.name;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= 3 ? best : null;
+}
+
+/**
+ * Split a template into text, variable and malformed tokens
+ *
+ * Whitespace inside braces is tolerated ({{ professor_name }}); anything
+ * else that opens with {{ but is not a valid identifier closed by }} is
+ * returned as a malformed token.
+ */
+export function tokenizeTemplate(template: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let cursor = 0;
+  let textStart = 0;
+
+  const flushText = (end: number) => {
+    if (end > textStart) {
+      tokens.push({ type: "text", value: template.slice(textStart, end), start: textStart, end });
+    }
+  };
+
+  while (cursor < template.length) {
+    const open = template.indexOf("{{", cursor);
+    if (open === -1) break;
+
+    const close = template.indexOf("}}", open + 2);
+    const nextOpen = template.indexOf("{{", open + 2);
+
+    // Unclosed, or a new {{ starts before this one closes
+    if (close === -1 || (nextOpen !== -1 && nextOpen < close)) {
+      const end = nextOpen !== -1 ? nextOpen : template.length;
+      const lineEnd = template.indexOf("\n", open);
+      const tokenEnd = lineEnd !== -1 && lineEnd < end ? lineEnd : end;
+      flushText(open);
+      tokens.push({ type: "malformed", raw: template.slice(open, tokenEnd), start: open, end: tokenEnd });
+      cursor = textStart = tokenEnd;
+      continue;
+    }
+
+    const end = close + 2;
+    const raw = template.slice(open, end);
+    const name = template.slice(open + 2, close).trim();
+
+    flushText(open);
+    if (VARIABLE_NAME_PATTERN.test(name)) {
+      tokens.push({ type: "variable", name, raw, known: KNOWN_VARIABLES.has(name), start: open, end });
+    } else {
+      tokens.push({ type: "malformed", raw, start: open, end });
+    }
+    cursor = textStart = end;
+  }
+
+  flushText(template.length);
+  return tokens;
+}
+
+/**
+ * Tokenize and collect every problem a user should fix before queueing
+ */
+export function analyzeTemplate(template: string): TemplateAnalysis {
+  const tokens = tokenizeTemplate(template);
+  const issues: TemplateIssue[] = [];
+  const variables = new Set<string>();
+
+  for (const token of tokens) {
+    if (token.type === "variable") {
+      variables.add(token.name);
+      if (!token.known) {
+        const suggestion = suggestVariable(token.name);
+        issues.push({
+          severity: "error",
+          message: suggestion
+            ? `Unknown variable "${token.name}" - did you mean {{${suggestion}}}?`
+            : `Unknown variable "${token.name}"`,
+          raw: token.raw,
+          start: token.start,
+          end: token.end,
+        });
+      }
+    } else if (token.type === "malformed") {
+      const closed = token.raw.endsWith("}}");
+      issues.push({
+        severity: "error",
+        message: closed
+          ? `Invalid placeholder ${token.raw} - names may only contain letters, numbers and underscores`
+          : `Placeholder ${token.raw} is missing its closing }}`,
+        raw: token.raw,
+        start: token.start,
+        end: token.end,
+      });
+    } else {
+      // Single-brace near misses like {professor_name}
+      for (const match of token.value.matchAll(/\{+([a-z_]+)\}+/gi)) {
+        if (match[0] !== `{${match[1]}}` || !KNOWN_VARIABLES.has(match[1])) continue;
+        const start = token.start + (match.index ?? 0);
+        issues.push({
+          severity: "warning",
+          message: `${match[0]} uses single braces - use {{${match[1]}}} to insert the variable`,
+          raw: match[0],
+          start,
+          end: start + match[0].length,
+        });
+      }
+    }
+  }
+
+  return {
+    tokens,
+    issues: issues.sort((a, b) => a.start - b.start),
+    variables: [...variables],
+    hasErrors: issues.some((issue) => issue.severity === "error"),
+  };
+}
+
+export interface PreviewSegment {
+  kind: "text" | "filled" | "unresolved";
+  text: string;
+}
+
+/**
+ * Substitute known variables with sample values for a recipient
+ *
+ * Unknown and malformed placeholders are left untouched so they stay visible.
+ */
+export function renderTemplatePreview(template: string, item: BatchItem): PreviewSegment[] {
+  return tokenizeTemplate(template).map((token): PreviewSegment => {
+    if (token.type === "text") {
+      return { kind: "text", text: token.value };
+    }
+    const variable =
+      token.type === "variable" ? TEMPLATE_VARIABLES.find((v) => v.name === token.name) : undefined;
+    return variable
+      ? { kind: "filled", text: variable.sample(item) }
+      : { kind: "unresolved", text: token.raw };
+  });
+}
+
+// Placeholders whose value is the recipient input itself rather than researched
+const INPUT_VARIABLES = new Map<string, (item: BatchItem) => string>([
+  ["professor_name", (item) => item.recipient_name],
+]);
+
+/**
+ * Substitute only placeholders filled straight from the recipient input
+ *
+ * Researched placeholders stay as {{raw}} so that diffing the result against
+ * a generated email isolates what the pipeline wrote.
+ */
+export function fillInputVariables(template: string, item: BatchItem): string {
+  return tokenizeTemplate(template)
+    .map((token) => {
+      if (token.type === "text") return token.value;
+      const fill = token.type === "variable" ? INPUT_VARIABLES.get(token.name) : undefined;
+      return fill ? fill(item) : token.raw;
+    })
+    .join("");
+}
+
+/**
+ * Problem with a mail-merge subject template, if any
+ *
+ * Subjects are filled on export rather than by the generation pipeline, so
+ * only placeholders filled straight from the recipient input are allowed.
+ */
+export function getSubjectTemplateIssue(template: string): string | null {
+  for (const token of tokenizeTemplate(template)) {
+    if (token.type === "malformed") {
+      return `Invalid placeholder ${token.raw}`;
+    }
+    if (token.type === "variable" && !INPUT_VARIABLES.has(token.name)) {
+      return `${token.raw} can't be used in a subject - only {{professor_name}} is filled in`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,90 @@
+/**
+ * Local Template History
+ *
+ * IndexedDB-backed snapshots of the profile email_template. Used as a
+ * fallback when GET /api/user/template/versions is unavailable so that
+ * overwritten templates can still be recovered from this browser.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import logger from "@/utils/logger";
+import type { TemplateVersion } from "@/lib/schemas";
+import { openDatabase, promisifyRequest, transactionDone } from "@/lib/idb";
+
+const DB_NAME = "scribe-template-history";
+const DB_VERSION = 1;
+const STORE_NAME = "versions";
+
+/** Oldest snapshots beyond this count are pruned per user */
+export const MAX_LOCAL_VERSIONS = 50;
+
+interface LocalTemplateVersion extends TemplateVersion {
+  user_id: string;
+}
+
+function openHistoryDatabase(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+      store.createIndex("user_id", "user_id");
+    }
+  });
+}
+
+async function readUserVersions(db: IDBDatabase, userId: string): Promise<LocalTemplateVersion[]> {
+  const transaction = db.transaction(STORE_NAME, "readonly");
+  const index = transaction.objectStore(STORE_NAME).index("user_id");
+  const versions = await promisifyRequest<LocalTemplateVersion[]>(index.getAll(userId));
+
+  // Newest first, matching the API ordering
+  return versions.sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * List local snapshots for a user, newest first
+ */
+export async function getLocalTemplateVersions(userId: string): Promise<TemplateVersion[]> {
+  const db = await openHistoryDatabase();
+  try {
+    const versions = await readUserVersions(db, userId);
+    return versions.map(({ id, template_text, created_at }) => ({ id, template_text, created_at }));
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Record a snapshot unless it matches the most recent one
+ *
+ * Never throws - history is best-effort and must not block saving.
+ */
+export async function recordLocalTemplateVersion(userId: string, templateText: string): Promise<void> {
+  let db: IDBDatabase | null = null;
+  try {
+    db = await openHistoryDatabase();
+    const existing = await readUserVersions(db, userId);
+    if (existing[0]?.template_text === templateText) {
+      return;
+    }
+
+    const transaction = db.transaction(STORE_NAME, "readwrite");
+    const store = transaction.objectStore(STORE_NAME);
+    store.add({
+      id: uuidv4(),
+      user_id: userId,
+      template_text: templateText,
+      created_at: new Date().toISOString(),
+    } satisfies LocalTemplateVersion);
+
+    // existing excludes the snapshot just added, so keep one fewer
+    for (const stale of existing.slice(MAX_LOCAL_VERSIONS - 1)) {
+      store.delete(stale.id);
+    }
+
+    await transactionDone(transaction);
+  } catch (error) {
+    logger.warn("[TemplateHistory] Failed to record local snapshot", { error });
+  } finally {
+    db?.close();
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Text Diff
+ * Word-level diff (LCS over word and whitespace tokens) for comparing
+ * template versions and generated emails
+ */
+
+export type DiffOperation = "equal" | "added" | "removed";
+
+export interface DiffSegment {
+  op: DiffOperation;
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Words and runs of whitespace are separate tokens so spacing survives the diff
+const TOKEN_PATTERN = /\s+|[^\s]+/g;
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) ?? [];
+}
+
+function pushSegment(segments: DiffSegment[], op: DiffOperation, text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+}
+
+/**
+ * Diff two texts word by word
+ *
+ * Common prefix and suffix are trimmed before the LCS table is built, so
+ * typical edits to long texts stay cheap.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const rows = midA.length;
+  const cols = midB.length;
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..], flattened
+  const width = cols + 1;
+  const lcs = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  if (prefix > 0) {
+    pushSegment(segments, "equal", a.slice(0, prefix).join(""));
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (midA[i] === midB[j]) {
+      pushSegment(segments, "equal", midA[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushSegment(segments, "removed", midA[i++]);
+    } else {
+      pushSegment(segments, "added", midB[j++]);
+    }
+  }
+  while (i < rows) pushSegment(segments, "removed", midA[i++]);
+  while (j < cols) pushSegment(segments, "added", midB[j++]);
+
+  if (suffix > 0) {
+    pushSegment(segments, "equal", a.slice(a.length - suffix).join(""));
+  }
+
+  return segments;
+}
+
+/**
+ * Count added and removed words (whitespace-only changes are ignored)
+ */
+export function getDiffStats(segments: DiffSegment[]): DiffStats {
+  const countWords = (text: string) => tokenize(text).filter((token) => token.trim()).length;
+
+  return segments.reduce<DiffStats>(
+    (stats, segment) => {
+      if (segment.op === "added") stats.added += countWords(segment.text);
+      if (segment.op === "removed") stats.removed += countWords(segment.text);
+      return stats;
+    },
+    { added: 0, removed: 0 }
+  );
+}
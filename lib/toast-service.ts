@@ -68,9 +68,11 @@ export function showWarning(message: string, options?: ToastOptions) {
 
 /**
  * Show loading toast (returns toast ID for dismissal)
+ *
+ * Pass the ID of an earlier loading toast to update its message in place.
  */
-export function showLoading(message: string): string | number {
-  return sonnerToast.loading(message);
+export function showLoading(message: string, options?: { id?: string | number }): string | number {
+  return sonnerToast.loading(message, { id: options?.id });
 }
 
 /**
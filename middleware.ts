@@ -8,6 +8,7 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
 import { createLogger } from '@/utils/logger';
+import { REQUEST_ID_COOKIE } from '@/config/api';
 import { v4 as uuidv4 } from 'uuid';
 
 const logger = createLogger('Middleware');
@@ -43,12 +44,22 @@ export async function middleware(request: NextRequest) {
     userAgent: request.headers.get('user-agent')?.substring(0, 50) || 'unknown',
   });
 
-  let supabaseResponse = NextResponse.next({
-    request,
-  });
+  // Return the request ID in a header, and in a short-lived cookie the
+  // client's request-ID interceptor picks up on its first API call
+  const nextWithRequestId = () => {
+    const response = NextResponse.next({
+      request,
+    });
+    response.headers.set('X-Request-ID', requestId);
+    response.cookies.set(REQUEST_ID_COOKIE, requestId, {
+      path: '/',
+      maxAge: 60,
+      sameSite: 'lax',
+    });
+    return response;
+  };
 
-  // Add request ID to response headers for client-side access
-  supabaseResponse.headers.set('X-Request-ID', requestId);
+  let supabaseResponse = nextWithRequestId();
 
   const supabase = createServerClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -62,9 +73,7 @@ export async function middleware(request: NextRequest) {
           cookiesToSet.forEach(({ name, value }) =>
             request.cookies.set(name, value)
           );
-          supabaseResponse = NextResponse.next({
-            request,
-          });
+          supabaseResponse = nextWithRequestId();
           cookiesToSet.forEach(({ name, value, options }) =>
             supabaseResponse.cookies.set(name, value, options)
           );
@@ -12,18 +12,38 @@
 
 import { create } from "zustand";
 import { persist, createJSONStorage } from "zustand/middleware";
+import { createDraftRow, type BatchDraftRow } from "@/lib/batch-draft";
+import type { BatchItem } from "@/lib/schemas";
+import { DEFAULT_EXPORT_COLUMNS } from "@/lib/email-export-columns";
+import type { ExportOptions } from "@/lib/email-export";
+import type { RealtimeStatus } from "@/lib/supabase/realtime";
+
+export interface NotificationPreferences {
+  // Web Notification when a batch finishes while the tab is in the background
+  desktop: boolean;
+  // "(3) Scribe" tab title while finished emails are unseen
+  titleBadge: boolean;
+}
 
 interface UIState {
   // Hydration state (Next.js SSR protection)
   _hasHydrated: boolean;
   setHasHydrated: (state: boolean) => void;
 
-  // Recipient form fields
-  recipientName: string;
-  setRecipientName: (name: string) => void;
+  // Recipient grid draft (one row per BatchItem)
+  batchDraft: BatchDraftRow[];
+  setBatchDraft: (rows: BatchDraftRow[]) => void;
+  updateDraftRow: (id: string, patch: Partial<BatchItem>) => void;
+  insertDraftRows: (afterId: string | null, items: BatchItem[]) => void;
+  removeDraftRow: (id: string) => void;
+
+  // Last used export format and columns
+  exportOptions: ExportOptions;
+  setExportOptions: (options: ExportOptions) => void;
 
-  recipientInterest: string;
-  setRecipientInterest: (interest: string) => void;
+  // Batch completion alerts (desktop notifications are opt-in)
+  notificationPreferences: NotificationPreferences;
+  setNotificationPreferences: (patch: Partial<NotificationPreferences>) => void;
 
   // UI interaction state (not persisted)
   hoveredEmailId: string | null;
@@ -32,6 +52,10 @@ interface UIState {
   copiedEmailId: string | null;
   setCopiedEmailId: (id: string | null) => void;
 
+  // Queue Realtime channel state; polling is the fallback while not connected
+  queueRealtimeStatus: RealtimeStatus;
+  setQueueRealtimeStatus: (status: RealtimeStatus) => void;
+
   // Reset all form state
   resetForm: () => void;
 
@@ -39,12 +63,16 @@ interface UIState {
   reset: () => void;
 }
 
+const createEmptyDraft = () => [createDraftRow()];
+
 const initialState = {
   _hasHydrated: false,
-  recipientName: "",
-  recipientInterest: "",
+  batchDraft: createEmptyDraft(),
+  exportOptions: { format: "xlsx", columns: DEFAULT_EXPORT_COLUMNS } as ExportOptions,
+  notificationPreferences: { desktop: false, titleBadge: true } as NotificationPreferences,
   hoveredEmailId: null,
   copiedEmailId: null,
+  queueRealtimeStatus: "disconnected" as RealtimeStatus,
 };
 
 export const useUIStore = create<UIState>()(
@@ -55,29 +83,79 @@ export const useUIStore = create<UIState>()(
 
       // Actions
       setHasHydrated: (state) => set({ _hasHydrated: state }),
-      setRecipientName: (name) => set({ recipientName: name }),
-      setRecipientInterest: (interest) => set({ recipientInterest: interest }),
+      setBatchDraft: (rows) =>
+        set({ batchDraft: rows.length > 0 ? rows : createEmptyDraft() }),
+      updateDraftRow: (id, patch) =>
+        set((state) => ({
+          batchDraft: state.batchDraft.map((row) =>
+            row.id === id ? { ...row, ...patch } : row
+          ),
+        })),
+      // Appends when afterId is null or not found
+      insertDraftRows: (afterId, items) =>
+        set((state) => {
+          const rows = items.map((item) => createDraftRow(item));
+          const index = state.batchDraft.findIndex((row) => row.id === afterId);
+          if (index === -1) {
+            return { batchDraft: [...state.batchDraft, ...rows] };
+          }
+          return {
+            batchDraft: [
+              ...state.batchDraft.slice(0, index + 1),
+              ...rows,
+              ...state.batchDraft.slice(index + 1),
+            ],
+          };
+        }),
+      removeDraftRow: (id) =>
+        set((state) => {
+          const remaining = state.batchDraft.filter((row) => row.id !== id);
+          return { batchDraft: remaining.length > 0 ? remaining : createEmptyDraft() };
+        }),
+      setExportOptions: (options) => set({ exportOptions: options }),
+      setNotificationPreferences: (patch) =>
+        set((state) => ({
+          notificationPreferences: { ...state.notificationPreferences, ...patch },
+        })),
       setHoveredEmailId: (id) => set({ hoveredEmailId: id }),
       setCopiedEmailId: (id) => set({ copiedEmailId: id }),
+      setQueueRealtimeStatus: (status) => set({ queueRealtimeStatus: status }),
 
-      resetForm: () =>
-        set({
-          recipientName: "",
-          recipientInterest: "",
-        }),
+      resetForm: () => set({ batchDraft: createEmptyDraft() }),
 
-      reset: () => set(initialState),
+      reset: () => set({ ...initialState, batchDraft: createEmptyDraft() }),
     }),
     {
       name: "scribe-ui-storage", // localStorage key
       storage: createJSONStorage(() => localStorage),
+      version: 1,
 
-      // Only persist these fields (not hover/copied state or hydration flag)
+      // Only persist these fields (not hover/copied/realtime state or hydration flag)
       partialize: (state) => ({
-        recipientName: state.recipientName,
-        recipientInterest: state.recipientInterest,
+        batchDraft: state.batchDraft,
+        exportOptions: state.exportOptions,
+        notificationPreferences: state.notificationPreferences,
       }),
 
+      // v0 stored a comma-separated name string with one shared interest
+      migrate: (persistedState, version) => {
+        if (version === 0) {
+          const legacy = persistedState as { recipientName?: string; recipientInterest?: string };
+          const names = (legacy.recipientName ?? "")
+            .split(",")
+            .map((name) => name.trim())
+            .filter(Boolean);
+          const rows = names.map((name) =>
+            createDraftRow({
+              recipient_name: name,
+              recipient_interest: legacy.recipientInterest ?? "",
+            })
+          );
+          return { batchDraft: rows.length > 0 ? rows : createEmptyDraft() };
+        }
+        return persistedState as { batchDraft: BatchDraftRow[] };
+      },
+
       // Mark as hydrated after rehydration completes (Next.js SSR protection)
       onRehydrateStorage: () => (state) => {
         state?.setHasHydrated(true);
@@ -91,15 +169,22 @@ export const useUIStore = create<UIState>()(
  * Components only re-render when their specific slice changes
  */
 
-// Recipient selectors
-export const useRecipientName = () => useUIStore((state) => state.recipientName);
-export const useSetRecipientName = () =>
-  useUIStore((state) => state.setRecipientName);
+// Batch grid selectors
+export const useBatchDraft = () => useUIStore((state) => state.batchDraft);
+export const useSetBatchDraft = () => useUIStore((state) => state.setBatchDraft);
+export const useUpdateDraftRow = () => useUIStore((state) => state.updateDraftRow);
+export const useInsertDraftRows = () => useUIStore((state) => state.insertDraftRows);
+export const useRemoveDraftRow = () => useUIStore((state) => state.removeDraftRow);
 
-export const useRecipientInterest = () =>
-  useUIStore((state) => state.recipientInterest);
-export const useSetRecipientInterest = () =>
-  useUIStore((state) => state.setRecipientInterest);
+// Export preference selectors
+export const useExportOptions = () => useUIStore((state) => state.exportOptions);
+export const useSetExportOptions = () => useUIStore((state) => state.setExportOptions);
+
+// Notification preference selectors
+export const useNotificationPreferences = () =>
+  useUIStore((state) => state.notificationPreferences);
+export const useSetNotificationPreferences = () =>
+  useUIStore((state) => state.setNotificationPreferences);
 
 // Hover/copied selectors
 export const useHoveredEmailId = () =>
@@ -112,6 +197,12 @@ export const useCopiedEmailId = () =>
 export const useSetCopiedEmailId = () =>
   useUIStore((state) => state.setCopiedEmailId);
 
+// Queue Realtime selectors
+export const useQueueRealtimeStatus = () =>
+  useUIStore((state) => state.queueRealtimeStatus);
+export const useSetQueueRealtimeStatus = () =>
+  useUIStore((state) => state.setQueueRealtimeStatus);
+
 // Form reset selectors
 export const useResetForm = () => useUIStore((state) => state.resetForm);
 
@@ -122,16 +213,15 @@ export const useHasHydrated = () => useUIStore((state) => state._hasHydrated);
  * Usage Examples:
  *
  * 1. Basic usage:
- *    const recipientName = useRecipientName();
- *    const setRecipientName = useSetRecipientName();
+ *    const rows = useBatchDraft();
+ *    const updateRow = useUpdateDraftRow();
  *
  * 2. Full store access:
- *    const { recipientName, setRecipientName, resetForm } = useUIStore();
+ *    const { batchDraft, setBatchDraft, resetForm } = useUIStore();
  *
- * 3. Optimized component (only re-renders when recipientName changes):
- *    function RecipientInput() {
- *      const name = useRecipientName();
- *      const setName = useSetRecipientName();
- *      return <input value={name} onChange={(e) => setName(e.target.value)} />;
+ * 3. Optimized component (only re-renders when the draft changes):
+ *    function RecipientCount() {
+ *      const rows = useBatchDraft();
+ *      return <span>{rows.length} recipients</span>;
  *    }
  */